@@ -2,7 +2,9 @@ import { defineConfig } from 'bunup'
 import { copy } from 'bunup/plugins'
 
 export default defineConfig({
-	entry: ['src/index.ts', 'src/vitepress-components/utils.ts'],
+	entry: ['src/index.ts', 'src/cli/index.ts', 'src/vitepress-components/utils.ts'],
+	// Loaded from the user's project by the CLI
+	external: ['vitepress'],
 	// Generate declaration file (`.d.ts`)
 	dts: {
 		entry: ['src/index.ts'],
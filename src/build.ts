@@ -0,0 +1,148 @@
+import path from 'node:path'
+import pc from 'picocolors'
+import type { DefaultTheme, UserConfig } from 'vitepress'
+import type { ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+import {
+	generateLLMDocs,
+	isMainPageFile,
+	isProcessableFile,
+	prepareFiles,
+	resolveSidebar,
+} from '@/plugin/pipeline'
+import { resolveWorkDir, withDefaultSettings } from '@/plugin/settings'
+import type { LlmstxtSettings } from '@/types'
+import { findMarkdownFiles } from '@/utils/file-utils'
+import log from '@/utils/logger'
+
+/** Options for {@link buildLLMDocs}. */
+export interface BuildLLMDocsOptions {
+	/**
+	 * The VitePress source directory containing the markdown files.
+	 *
+	 * @example 'docs'
+	 */
+	srcDir: string
+
+	/**
+	 * The directory where the generated files are written.
+	 *
+	 * If omitted, nothing is written and the files are only returned.
+	 *
+	 * @example 'docs/.vitepress/dist'
+	 */
+	outDir?: string
+
+	/** The plugin settings, the same ones that are passed to the VitePress plugin. */
+	settings?: LlmstxtSettings
+
+	/**
+	 * The VitePress configuration (usually exported from `.vitepress/config`).
+	 *
+	 * Used for `base`, `rewrites`, `srcExclude` and the sidebar.
+	 */
+	vitepressConfig?: UserConfig
+}
+
+/** Everything needed to run the pipeline outside of a Vite build. */
+export interface LLMDocsContext {
+	/** The plugin settings with defaults. */
+	settings: ResolvedLlmstxtSettings
+
+	/** A minimal VitePress configuration built from the options. */
+	config: VitePressConfig
+
+	/** The resolved sidebar. */
+	sidebar: DefaultTheme.Sidebar | undefined
+
+	/** The markdown files to process. */
+	files: string[]
+}
+
+/**
+ * Resolves the settings and the configuration, and collects the markdown files to process.
+ *
+ * @param options - The build options.
+ * @returns The context for running the pipeline.
+ */
+export async function resolveLLMDocsContext({
+	srcDir,
+	outDir,
+	settings: userSettings = {},
+	vitepressConfig = {},
+}: BuildLLMDocsOptions): Promise<LLMDocsContext> {
+	const settings = withDefaultSettings(userSettings)
+	const resolvedSrcDir = path.resolve(srcDir)
+	const resolvedOutDir = outDir && path.resolve(outDir)
+
+	resolveWorkDir(settings, resolvedSrcDir)
+
+	const config = {
+		root: process.cwd(),
+		base: vitepressConfig.base ?? '/',
+		vitepress: {
+			srcDir: resolvedSrcDir,
+			outDir: resolvedOutDir,
+			userConfig: vitepressConfig,
+		},
+	} as VitePressConfig
+
+	// resolve the sidebar option before reading the files
+	// in order to process files from content loaders used in the sidebar function
+	const sidebar = await resolveSidebar(settings, config)
+
+	const pages = (await findMarkdownFiles(resolvedSrcDir, vitepressConfig.srcExclude)).filter(
+		(file) => !(resolvedOutDir && file.startsWith(resolvedOutDir)),
+	)
+
+	// All the pages of the site, as VitePress provides them, for validating the sidebar links
+	config.vitepress.pages = pages.map((file) => path.relative(resolvedSrcDir, file))
+
+	const files = pages.filter(
+		(file) =>
+			isProcessableFile(file, settings, config) &&
+			!(settings.excludeIndexPage && isMainPageFile(file, settings, config)),
+	)
+
+	return { settings, config, sidebar, files }
+}
+
+/**
+ * Generates `llms.txt`, `llms-full.txt` and LLM-friendly pages without running a Vite build.
+ *
+ * Runs the same pipeline as the plugin, so the output is identical to the one of `vitepress build`,
+ * except that image URLs aren't rewritten to the hashed assets, since no bundle is produced.
+ *
+ * @example
+ * ```typescript
+ * import { buildLLMDocs } from 'vitepress-plugin-llms'
+ * import vitepressConfig from './docs/.vitepress/config'
+ *
+ * await buildLLMDocs({
+ *     srcDir: 'docs',
+ *     outDir: 'docs/.vitepress/dist',
+ *     settings: { domain: 'https://example.com' },
+ *     vitepressConfig,
+ * })
+ * ```
+ *
+ * @param options - The build options.
+ * @returns The generated files by their path relative to the output directory.
+ */
+export async function buildLLMDocs(options: BuildLLMDocsOptions): Promise<Map<string, string>> {
+	const { settings, config, sidebar, files: mdFilesList } = await resolveLLMDocsContext(options)
+
+	if (mdFilesList.length === 0) {
+		log.warn(
+			`No markdown files found to process. Check your \`${pc.bold('workDir')}\` and \`${pc.bold('ignoreFiles')}\` settings.`,
+		)
+		return new Map()
+	}
+
+	log.info(
+		`Processing ${pc.bold(mdFilesList.length.toString())} markdown files from ${pc.cyan(settings.workDir)}`,
+	)
+
+	const preparedFiles = await prepareFiles(mdFilesList, settings, config)
+
+	return generateLLMDocs(preparedFiles, mdFilesList, settings, config, sidebar, config.vitepress.outDir)
+}
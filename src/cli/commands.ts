@@ -0,0 +1,133 @@
+import path from 'node:path'
+import pc from 'picocolors'
+import { approximateTokenSize } from 'tokenx'
+import type { PluginOption } from 'vite'
+import { name as packageName } from '@/../package.json'
+import { type BuildLLMDocsOptions, type buildLLMDocs, resolveLLMDocsContext } from '@/build'
+import { generateLLMFriendlyPage } from '@/generator/page-generator'
+import {
+	prepareFile,
+	prepareFiles,
+	renderLLMsFullTxtFiles,
+	renderLLMsTxt,
+	resolvePreparedFilePath,
+} from '@/plugin/pipeline'
+import type { LlmstxtSettings } from '@/types'
+import { stripExtPosix, transformToPosixPath } from '@/utils/file-utils'
+import { getHumanReadableSizeOf } from '@/utils/helpers'
+
+/**
+ * Finds the settings passed to the plugin in the Vite plugins of the VitePress config.
+ *
+ * @param plugins - The Vite plugins.
+ * @returns The plugin settings, or `undefined` if the plugin isn't used.
+ */
+function findPluginSettings(plugins: PluginOption[] | undefined): LlmstxtSettings | undefined {
+	for (const plugin of plugins ?? []) {
+		if (Array.isArray(plugin)) {
+			const settings = findPluginSettings(plugin)
+			if (settings) return settings
+		} else if (plugin && typeof plugin === 'object' && 'name' in plugin && plugin.name === packageName) {
+			return plugin.api?.settings ?? {}
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Loads the VitePress config of a project the same way `vitepress build` does.
+ *
+ * @param root - The project root (the directory containing `.vitepress`).
+ * @returns The options for {@link buildLLMDocs}, including the plugin settings from the config.
+ */
+export async function loadBuildOptions(root: string): Promise<BuildLLMDocsOptions> {
+	// VitePress is a peer of the plugin, load it only when it's needed
+	const { resolveConfig } = await import('vitepress')
+	const siteConfig = await resolveConfig(root, 'build', 'production')
+
+	return {
+		srcDir: siteConfig.srcDir,
+		outDir: siteConfig.outDir,
+		settings: findPluginSettings(siteConfig.userConfig.vite?.plugins),
+		vitepressConfig: { ...siteConfig.userConfig, base: siteConfig.site.base },
+	}
+}
+
+/**
+ * Prints the approximate token count and size of each page, `llms.txt` and `llms-full.txt` (or its parts).
+ *
+ * @param options - The build options.
+ */
+export async function stats(options: BuildLLMDocsOptions): Promise<void> {
+	const { settings, config, sidebar, files } = await resolveLLMDocsContext(options)
+	const preparedFiles = await prepareFiles(files, settings, config)
+
+	const rows = preparedFiles.map((preparedFile) => {
+		const content = generateLLMFriendlyPage(
+			preparedFile,
+			settings.domain,
+			config.base,
+			settings.images?.pages,
+		)
+		return [transformToPosixPath(preparedFile.path), content] as const
+	})
+
+	const totals = [
+		['llms.txt', await renderLLMsTxt(preparedFiles, '.', settings, config, sidebar)] as const,
+		...(await renderLLMsFullTxtFiles(preparedFiles, '.', settings, config, sidebar)),
+	]
+
+	const table = [...rows, ...totals].map(([name, content]) => ({
+		name,
+		tokens: approximateTokenSize(content).toLocaleString('en-US'),
+		size: getHumanReadableSizeOf(content),
+	}))
+
+	const nameWidth = Math.max(4, ...table.map((row) => row.name.length))
+	const tokensWidth = Math.max(6, ...table.map((row) => row.tokens.length))
+
+	console.log(pc.bold(`${'File'.padEnd(nameWidth)}  ${'Tokens'.padStart(tokensWidth)}  Size`))
+	table.forEach((row, index) => {
+		if (index === rows.length) {
+			console.log(pc.dim('-'.repeat(nameWidth + tokensWidth + 10)))
+		}
+		console.log(`${pc.cyan(row.name.padEnd(nameWidth))}  ${row.tokens.padStart(tokensWidth)}  ${row.size}`)
+	})
+}
+
+/**
+ * Prints the processed markdown of a single page, exactly as it's written to the output directory.
+ *
+ * @param options - The build options.
+ * @param page - The page URL (e.g. `/guide/getting-started`) or the path to its source file.
+ * @returns `false` if there is no such page.
+ */
+export async function preview(options: BuildLLMDocsOptions, page: string): Promise<boolean> {
+	const { settings, config, files } = await resolveLLMDocsContext(options)
+
+	const sourcePath = path.resolve(page)
+	const pagePath = page.startsWith(config.base) ? page.slice(config.base.length) : page
+	const outputPath = `${stripExtPosix(pagePath.replace(/^\/+/, '')) || 'index'}.md`
+
+	const file = files.find(
+		(file) =>
+			file === sourcePath ||
+			transformToPosixPath(resolvePreparedFilePath(file, settings, config)) === outputPath,
+	)
+
+	if (!file) {
+		return false
+	}
+
+	console.log(
+		generateLLMFriendlyPage(
+			await prepareFile(file, settings, config),
+			settings.domain,
+			config.base,
+			settings.images?.pages,
+		),
+	)
+
+	return true
+}
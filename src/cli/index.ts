@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+import pc from 'picocolors'
+import { name as packageName, version as packageVersion } from '@/../package.json'
+import { buildLLMDocs } from '@/build'
+import { loadBuildOptions, preview, stats } from '@/cli/commands'
+import log from '@/utils/logger'
+
+const HELP = `${pc.bold('vitepress-llms')} ${pc.dim(`(${packageName} v${packageVersion})`)}
+
+Usage:
+  vitepress-llms generate [root]        Write llms.txt, llms-full.txt and the pages to the output directory
+  vitepress-llms stats [root]           Print the approximate token count and size of each page
+  vitepress-llms preview <page> [root]  Print the processed markdown of a page (e.g. /guide/getting-started)
+
+Options:
+  -h, --help     Show this message
+  -v, --version  Show the version
+
+[root] is the VitePress project root containing .vitepress (default: .)`
+
+/**
+ * Runs the CLI.
+ *
+ * @param args - The command line arguments without the executable and the script.
+ * @returns The exit code.
+ */
+async function run(args: string[]): Promise<number> {
+	if (args.includes('-v') || args.includes('--version')) {
+		console.log(packageVersion)
+		return 0
+	}
+
+	const [command, ...positionals] = args
+
+	if (!command || args.includes('-h') || args.includes('--help')) {
+		console.log(HELP)
+		return command ? 0 : 1
+	}
+
+	switch (command) {
+		case 'generate': {
+			await buildLLMDocs(await loadBuildOptions(positionals[0] ?? '.'))
+			return 0
+		}
+
+		case 'stats': {
+			await stats(await loadBuildOptions(positionals[0] ?? '.'))
+			return 0
+		}
+
+		case 'preview': {
+			const [page, root = '.'] = positionals
+
+			if (!page) {
+				log.error('Missing the page to preview, e.g. `vitepress-llms preview /guide/getting-started`')
+				return 1
+			}
+
+			if (!(await preview(await loadBuildOptions(root), page))) {
+				log.error(`Page ${pc.cyan(page)} not found or excluded from the LLM docs`)
+				return 1
+			}
+
+			return 0
+		}
+
+		default: {
+			log.error(`Unknown command ${pc.cyan(command)}`)
+			console.log(HELP)
+			return 1
+		}
+	}
+}
+
+run(process.argv.slice(2)).then(
+	(exitCode) => {
+		process.exitCode = exitCode
+	},
+	(error) => {
+		log.error((error as Error).message)
+		process.exitCode = 1
+	},
+)
@@ -8,7 +8,7 @@ export const defaultLLMsTxtTemplate = `\
 
 ## Table of Contents
 
-{toc}`
+{toc}{bundles}{locales}`
 
 /** List of unnecessary files grouped by category. */
 export const unnecessaryFilesList = {
@@ -1,8 +1,13 @@
 import path from 'node:path'
 import matter from 'gray-matter'
+import { millify } from 'millify'
+import { approximateTokenSize } from 'tokenx'
+import type { DefaultTheme } from 'vitepress'
+import { groupFilesBySidebarSection } from '@/generator/toc'
 import type { LinksExtension, PreparedFile, VitePressConfig } from '@/internal-types'
-import type { LlmstxtSettings } from '@/types'
-import { generateMetadata } from '@/utils/template-utils'
+import { renderImages } from '@/markdown/remark-plugins/images'
+import type { ImagesMode, LlmstxtSettings } from '@/types'
+import { generateLink, generateMetadata } from '@/utils/template-utils'
 
 /**
  * Options for generating the `llms-full.txt` file.
@@ -25,44 +30,197 @@ export interface GenerateLLMsFullTxtOptions {
 	 * If not provided, all files will be included.
 	 */
 	directoryFilter?: string
+
+	/**
+	 * Optional VitePress sidebar configuration to order the pages by.
+	 * Pages that aren't in the sidebar are appended at the end.
+	 */
+	sidebar?: DefaultTheme.Sidebar
+
+	/** Whether to insert the names of the sidebar groups as headings, requires {@link sidebar}. */
+	sectionHeadings?: boolean
+
+	/** The files placed last, under the `Optional` heading if {@link sectionHeadings} are enabled. */
+	optionalFiles?: PreparedFile[]
+
+	/** How images are rendered. */
+	images?: ImagesMode
+}
+
+/** A part of a `llms-full.txt` file split by {@link splitLLMsFullTxt}. */
+export interface LLMsFullTxtPart {
+	/** The pages included in the part. */
+	files: PreparedFile[]
+
+	/** The content of the part. */
+	content: string
+
+	/** The approximate number of tokens in the part. */
+	tokens: number
 }
 
+/** The separator between the pages in `llms-full.txt`. */
+const pageSeparator = '\n---\n\n'
+
 /**
- * Generates a `llms-full.txt` file content with all documentation in one file.
+ * Orders the files by their position in the sidebar, appending the ones that aren't in the sidebar.
+ *
+ * @param files - The files to order.
+ * @param sidebar - The VitePress sidebar configuration.
+ * @returns The files grouped by the top-level sidebar items, `title` is set only for sidebar groups.
+ */
+async function orderBySidebar(
+	files: PreparedFile[],
+	sidebar: DefaultTheme.Sidebar,
+): Promise<{ title?: string | undefined; files: PreparedFile[] }[]> {
+	const orderedFiles = new Set<PreparedFile>()
+
+	const sections = (await groupFilesBySidebarSection(files, sidebar)).map(({ section, files }) => ({
+		title: section.items?.length ? section.text : undefined,
+		// A page that appears in the sidebar more than once is only included the first time
+		files: files.filter((file) => !orderedFiles.has(file) && orderedFiles.add(file)),
+	}))
+
+	return [...sections, { title: 'Other', files: files.filter((file) => !orderedFiles.has(file)) }]
+}
+
+/**
+ * Filters the files by directory and renders each of them with its metadata.
  *
  * @param preparedFiles - An array of prepared files.
  * @param options - Options for generating the `llms-full.txt` file.
- * @returns A string representing the full content of the LLMs.txt file.
+ * @returns The included files along with their rendered content.
  */
-export async function generateLLMsFullTxt(
+async function renderPages(
 	preparedFiles: PreparedFile[],
-	options: GenerateLLMsFullTxtOptions,
-): Promise<string> {
-	const { domain, linksExtension, base, directoryFilter } = options
-
+	{
+		domain,
+		linksExtension,
+		base,
+		directoryFilter,
+		sidebar,
+		sectionHeadings,
+		optionalFiles = [],
+		images,
+	}: GenerateLLMsFullTxtOptions,
+): Promise<{ file: PreparedFile; content: string }[]> {
 	// Filter files by directory if directoryFilter is provided
 	const filteredFiles = directoryFilter
 		? directoryFilter === '.'
 			? preparedFiles // Root directory includes all files
 			: preparedFiles.filter((file) => {
 					const relativePath = file.path
-					return relativePath.startsWith(directoryFilter + path.sep) || relativePath === directoryFilter
+					return (
+						relativePath.startsWith(directoryFilter + path.sep) ||
+						relativePath === directoryFilter ||
+						// The `index.md` of the directory
+						relativePath === `${directoryFilter}.md`
+					)
 				})
 		: preparedFiles
 
-	const fileContents = await Promise.all(
-		filteredFiles.map(async (file) => {
+	const regularFiles = filteredFiles.filter((file) => !optionalFiles.includes(file))
+	const sections: { title?: string | undefined; files: PreparedFile[] }[] = [
+		...(sidebar ? await orderBySidebar(regularFiles, sidebar) : [{ files: regularFiles }]),
+		{ title: 'Optional', files: filteredFiles.filter((file) => optionalFiles.includes(file)) },
+	]
+
+	return sections.flatMap(({ title, files }) =>
+		files.map((file, index) => {
 			// file.path is already relative to outDir, so use it directly
 			const metadata = generateMetadata(file.file, {
 				domain,
 				filePath: file.path,
 				linksExtension,
 				base,
+				title: file.title,
+				lastUpdated: file.lastUpdated,
 			})
+			const content = matter.stringify(renderImages(file.file.content, images), metadata)
 
-			return matter.stringify(file.file.content, metadata)
+			return { file, content: sectionHeadings && title && index === 0 ? `# ${title}\n\n${content}` : content }
 		}),
 	)
+}
+
+/**
+ * Generates a `llms-full.txt` file content with all documentation in one file.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param options - Options for generating the `llms-full.txt` file.
+ * @returns A string representing the full content of the LLMs.txt file.
+ */
+export async function generateLLMsFullTxt(
+	preparedFiles: PreparedFile[],
+	options: GenerateLLMsFullTxtOptions,
+): Promise<string> {
+	return (await renderPages(preparedFiles, options)).map(({ content }) => content).join(pageSeparator)
+}
+
+/**
+ * Splits the `llms-full.txt` content into parts of at most `maxTokens` tokens along page boundaries.
+ *
+ * A page that exceeds the limit by itself is put into a separate part.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param maxTokens - The maximum number of tokens in a part.
+ * @param options - Options for generating the `llms-full.txt` file.
+ * @returns The parts, a single one if everything fits.
+ */
+export async function splitLLMsFullTxt(
+	preparedFiles: PreparedFile[],
+	maxTokens: number,
+	options: GenerateLLMsFullTxtOptions,
+): Promise<LLMsFullTxtPart[]> {
+	const parts: LLMsFullTxtPart[] = []
+	let pages: { file: PreparedFile; content: string; tokens: number }[] = []
+
+	const closePart = () => {
+		const content = pages.map((page) => page.content).join(pageSeparator)
+		parts.push({ files: pages.map((page) => page.file), content, tokens: approximateTokenSize(content) })
+		pages = []
+	}
+
+	for (const page of await renderPages(preparedFiles, options)) {
+		const tokens = approximateTokenSize(page.content)
+		const partTokens = pages.reduce((sum, { tokens }) => sum + tokens, 0)
+
+		if (pages.length > 0 && partTokens + tokens > maxTokens) {
+			closePart()
+		}
+
+		pages.push({ ...page, tokens })
+	}
+
+	if (pages.length > 0 || parts.length === 0) {
+		closePart()
+	}
+
+	return parts
+}
+
+/**
+ * Generates the index of a split `llms-full.txt`, listing each part with its pages and token count.
+ *
+ * @param parts - The parts of the `llms-full.txt` file.
+ * @param partFileNames - The file names of the parts relative to the site root (e.g. `guide/llms-full-1.txt`).
+ * @param options - Options for generating the `llms-full.txt` file.
+ * @returns The content of the index.
+ */
+export function generateLLMsFullTxtIndex(
+	parts: LLMsFullTxtPart[],
+	partFileNames: string[],
+	{ domain, linksExtension, base }: GenerateLLMsFullTxtOptions,
+): string {
+	const sections = parts.map((part, index) => {
+		const partLink = generateLink(partFileNames[index] as string, domain, undefined, base)
+		const pages = part.files.map((file) => {
+			const { url } = generateMetadata(file.file, { domain, filePath: file.path, linksExtension, base })
+			return `- [${file.title}](${url})`
+		})
+
+		return `## [${path.posix.basename(partLink)}](${partLink})\n\n~${millify(part.tokens)} tokens\n\n${pages.join('\n')}`
+	})
 
-	return fileContents.join('\n---\n\n')
+	return `# Full documentation\n\nThe full documentation is split into ${parts.length} parts, read only the ones you need.\n\n${sections.join('\n\n')}\n`
 }
@@ -41,6 +41,15 @@ export interface GenerateLLMsTxtOptions {
 	 * If not provided, all files will be included.
 	 */
 	directoryFilter?: string
+
+	/** Whether to append the approximate token count and size of each page to its TOC entry. */
+	pageStats?: boolean
+
+	/** The files listed under the `## Optional` section of the TOC. */
+	optionalFiles?: PreparedFile[]
+
+	/** How the files that aren't in the sidebar are listed. */
+	otherPages?: LlmstxtSettings['otherPages']
 }
 
 /**
@@ -61,6 +70,9 @@ export async function generateLLMsTxt(
 		domain,
 		sidebar,
 		directoryFilter,
+		pageStats,
+		optionalFiles,
+		otherPages,
 	}: GenerateLLMsTxtOptions,
 ): Promise<string> {
 	// @ts-expect-error
@@ -98,7 +110,14 @@ export async function generateLLMsTxt(
 		sidebarConfig: sidebar || vitepressConfig?.themeConfig?.sidebar,
 		directoryFilter,
 		base: vitepressConfig?.base,
+		pageStats,
+		optionalFiles,
+		otherPages,
 	})
 
+	// Links to the section bundles and the locales are only provided by the plugin
+	templateVariables.bundles ??= ''
+	templateVariables.locales ??= ''
+
 	return expandTemplate(LLMsTxtTemplate, templateVariables)
 }
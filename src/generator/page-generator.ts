@@ -2,9 +2,39 @@ import fs from 'node:fs/promises'
 import path from 'node:path'
 import matter from 'gray-matter'
 import type { PreparedFile } from '@/internal-types'
+import { renderImages } from '@/markdown/remark-plugins/images'
+import type { ImagesMode } from '@/types'
 import log from '@/utils/logger'
 import { generateMetadata } from '@/utils/template-utils'
 
+/**
+ * Renders the LLM-friendly version of a single page.
+ *
+ * @param file - The prepared file.
+ * @param domain - The domain to use for links.
+ * @param base - The base URL path from VitePress config.
+ * @param images - How images are rendered.
+ * @returns The page content with its metadata in the frontmatter.
+ */
+export function generateLLMFriendlyPage(
+	file: PreparedFile,
+	domain?: string,
+	base?: string,
+	images?: ImagesMode,
+): string {
+	return matter.stringify(
+		renderImages(file.file.content, images),
+		generateMetadata(file.file, {
+			domain,
+			filePath: file.path,
+			linksExtension: '.md',
+			base,
+			title: file.title,
+			lastUpdated: file.lastUpdated,
+		}),
+	)
+}
+
 /**
  * Generates an LLM-friendly version of the documentation for each page.
  *
@@ -12,32 +42,22 @@ import { generateMetadata } from '@/utils/template-utils'
  * @param outDir - The output directory.
  * @param domain - The domain to use for links.
  * @param base - The base URL path from VitePress config.
+ * @param images - How images are rendered.
  */
 export async function generateLLMFriendlyPages(
 	preparedFiles: PreparedFile[],
 	outDir: string,
 	domain?: string,
 	base?: string,
+	images?: ImagesMode,
 ): Promise<void> {
 	const tasks = preparedFiles.map(async (file) => {
 		try {
-			const mdFile = file.file
 			const targetPath = path.resolve(outDir, file.path)
 
 			await fs.mkdir(path.dirname(targetPath), { recursive: true })
 
-			await fs.writeFile(
-				targetPath,
-				matter.stringify(
-					mdFile.content,
-					generateMetadata(mdFile, {
-						domain,
-						filePath: file.path,
-						linksExtension: '.md',
-						base,
-					}),
-				),
-			)
+			await fs.writeFile(targetPath, generateLLMFriendlyPage(file, domain, base, images))
 
 			log.success(`Processed ${file.path}`)
 		} catch (error) {
@@ -1,9 +1,12 @@
 import path from 'node:path'
+import { millify } from 'millify'
+import { approximateTokenSize } from 'tokenx'
 import type { DefaultTheme } from 'vitepress'
 import type { LinksExtension, PreparedFile, VitePressConfig } from '@/internal-types'
 import type { LlmstxtSettings } from '@/types'
 import { stripExtPosix, transformToPosixPath } from '@/utils/file-utils'
-import log from '@/utils/logger'
+import { getHumanReadableSizeOf } from '@/utils/helpers'
+import { extractDescription, getLLMsPageOptions } from '@/utils/markdown'
 import { generateLink } from '@/utils/template-utils'
 
 /**
@@ -14,6 +17,7 @@ import { generateLink } from '@/utils/template-utils'
  * @param relativePath - The relative path of the file, which is converted to a `.md` link.
  * @param extension - The link extension for the generated link (default is `.md`).
  * @param base - The base URL path from VitePress config.
+ * @param pageStats - Whether to append the approximate token count and size of the page.
  * @returns The formatted TOC entry as a Markdown list item.
  */
 export const generateTOCLink = (
@@ -22,9 +26,19 @@ export const generateTOCLink = (
 	relativePath: string,
 	extension?: LinksExtension,
 	base?: string,
+	pageStats?: boolean,
 ) => {
-	const description: string = file.file.data['description']
-	return `- [${file.title}](${generateLink(stripExtPosix(relativePath), domain, extension ?? '.md', base)})${description ? `: ${description.trim()}` : ''}\n`
+	const description = extractDescription(file.file)
+	const notes = [
+		description?.trim(),
+		pageStats &&
+			`(~${millify(approximateTokenSize(file.file.content))} tokens, ${getHumanReadableSizeOf(file.file.content)})`,
+	]
+		.filter(Boolean)
+		.join(' ')
+	// Pages without the LLM-friendly version are linked to their HTML version
+	const linksExtension = getLLMsPageOptions(file.file).page === false ? '.html' : (extension ?? '.md')
+	return `- [${file.title}](${generateLink(stripExtPosix(relativePath), domain, linksExtension, base)})${notes ? `: ${notes}` : ''}\n`
 }
 
 /**
@@ -33,7 +47,10 @@ export const generateTOCLink = (
  * @param items - Array of sidebar items to process.
  * @returns Array of paths collected from the sidebar items.
  */
-async function collectPathsFromSidebarItems(items: DefaultTheme.SidebarItem[], base = ''): Promise<string[]> {
+export async function collectPathsFromSidebarItems(
+	items: DefaultTheme.SidebarItem[],
+	base = '',
+): Promise<string[]> {
 	return Promise.all(
 		items.map(async (item) => {
 			const paths: string[] = []
@@ -92,6 +109,9 @@ export function isPathMatch(filePath: string, sidebarPath: string): boolean {
  * @param domain - Optional domain to prefix URLs with
  * @param linksExtension - The link extension for generated links.
  * @param depth - Current depth level for headings
+ * @param base - The base path of the section
+ * @param pageStats - Whether to append the approximate token count and size of each page
+ * @param optionalFiles - The optional files, they are left out of the section
  * @returns A string representing the formatted section of the TOC
  */
 async function processSidebarSection(
@@ -102,6 +122,8 @@ async function processSidebarSection(
 	linksExtension?: LinksExtension,
 	depth = 3,
 	base = '',
+	pageStats?: boolean,
+	optionalFiles: PreparedFile[] = [],
 ): Promise<string> {
 	if (!section.items || !Array.isArray(section.items)) {
 		return ''
@@ -125,14 +147,16 @@ async function processSidebarSection(
 						return isPathMatch(relativePath, normalizedItemLink)
 					})
 
+					if (matchingFile && optionalFiles.includes(matchingFile)) {
+						return null
+					}
+
 					if (matchingFile) {
 						const relativePath = matchingFile.path
-						return generateTOCLink(matchingFile, domain, relativePath, linksExtension, base)
+						return generateTOCLink(matchingFile, domain, relativePath, linksExtension, base, pageStats)
 					}
 
-					log.warn(
-						`No matching file found for sidebar link: ${item.link} (normalized: ${normalizedItemLink})`,
-					)
+					// Unmatched links are reported by `validateLLMDocs`
 					return null
 				}),
 		).then((items) => items.filter((item): item is string => item !== null)),
@@ -156,6 +180,8 @@ async function processSidebarSection(
 						// Increase depth for nested sections to maintain proper heading levels
 						depth + 1,
 						item.base ?? section.base ?? base ?? '',
+						pageStats,
+						optionalFiles,
 					),
 				),
 		),
@@ -195,7 +221,7 @@ async function processSidebarSection(
  * @param sidebarConfig - The sidebar configuration from VitePress.
  * @returns An array of sidebar items.
  */
-function flattenSidebarConfig(sidebarConfig: DefaultTheme.Sidebar): DefaultTheme.SidebarItem[] {
+export function flattenSidebarConfig(sidebarConfig: DefaultTheme.Sidebar): DefaultTheme.SidebarItem[] {
 	// If it's already an array, return as is
 	if (Array.isArray(sidebarConfig)) {
 		return sidebarConfig
@@ -210,6 +236,39 @@ function flattenSidebarConfig(sidebarConfig: DefaultTheme.Sidebar): DefaultTheme
 	return []
 }
 
+/**
+ * Groups the prepared files by the top-level items of the sidebar.
+ *
+ * Files are ordered the same way as in the sidebar, items without any matching files are omitted.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param sidebarConfig - The VitePress sidebar configuration.
+ * @returns The top-level items (sections or links) with their files.
+ */
+export async function groupFilesBySidebarSection(
+	preparedFiles: PreparedFile[],
+	sidebarConfig: DefaultTheme.Sidebar,
+): Promise<{ section: DefaultTheme.SidebarItem; files: PreparedFile[] }[]> {
+	const sections = flattenSidebarConfig(sidebarConfig)
+
+	const groups = await Promise.all(
+		sections.map(async (section) => {
+			const sidebarPaths = await collectPathsFromSidebarItems([section])
+			const files = sidebarPaths
+				.map((sidebarPath) =>
+					preparedFiles.find((file) =>
+						isPathMatch(`/${transformToPosixPath(stripExtPosix(file.path))}`, sidebarPath),
+					),
+				)
+				.filter((file, index, files): file is PreparedFile => !!file && files.indexOf(file) === index)
+
+			return { section, files }
+		}),
+	)
+
+	return groups.filter(({ files }) => files.length > 0)
+}
+
 /**
  * Options for generating a Table of Contents (TOC).
  */
@@ -237,6 +296,89 @@ export interface GenerateTOCOptions {
 	 * If not provided, all files will be included.
 	 */
 	directoryFilter?: string
+
+	/** Whether to append the approximate token count and size of each page to its entry. */
+	pageStats?: boolean
+
+	/** The files listed under the `## Optional` section at the end instead of their place in the TOC. */
+	optionalFiles?: PreparedFile[]
+
+	/** How the files that aren't in the sidebar are listed. */
+	otherPages?: LlmstxtSettings['otherPages']
+}
+
+/**
+ * Turns the name of a directory into a heading, e.g. `getting-started` into `Getting started`.
+ *
+ * @param directory - The name of the directory.
+ * @returns The heading.
+ */
+const directoryNameToTitle = (directory: string): string => {
+	const title = directory.replace(/[-_]+/g, ' ').trim()
+	return title.charAt(0).toUpperCase() + title.slice(1)
+}
+
+/**
+ * Generates the TOC section of the files that aren't in the sidebar
+ * according to {@link LlmstxtSettings.otherPages | `otherPages`}.
+ *
+ * @param unsortedFiles - The files that aren't in the sidebar.
+ * @param directoryFiles - All files of the directory, used to look up the titles of the `dir/index.md` (`dir.md`) files.
+ * @param options - Options for generating the TOC.
+ * @returns The section, or an empty string if there is nothing to list.
+ */
+function generateOtherPagesTOC(
+	unsortedFiles: PreparedFile[],
+	directoryFiles: PreparedFile[],
+	{ domain, linksExtension, base, pageStats, otherPages = {} }: GenerateTOCOptions,
+): string {
+	const { groupBy = 'none', title = 'Other' } = otherPages
+
+	if (unsortedFiles.length === 0 || groupBy === 'drop') {
+		return ''
+	}
+
+	const heading = title ? `### ${title}\n\n` : ''
+	const generateEntries = (files: PreparedFile[]) =>
+		files.map((file) => generateTOCLink(file, domain, file.path, linksExtension, base, pageStats)).join('')
+
+	if (groupBy === 'none') {
+		return heading + generateEntries(unsortedFiles)
+	}
+
+	const directories = new Set(
+		unsortedFiles.map((file) => path.posix.dirname(transformToPosixPath(file.path))),
+	)
+	const groups = new Map<string, PreparedFile[]>()
+	for (const file of unsortedFiles) {
+		const filePath = transformToPosixPath(file.path)
+
+		// `dir/index.md` is prepared as `dir.md`, it leads the group of its directory
+		const ownDirectory = filePath.slice(0, -'.md'.length)
+		if (directories.has(ownDirectory)) {
+			groups.set(ownDirectory, [file, ...(groups.get(ownDirectory) ?? [])])
+			continue
+		}
+
+		const directory = path.posix.dirname(filePath)
+		groups.set(directory, [...(groups.get(directory) ?? []), file])
+	}
+
+	const groupHeading = title ? '####' : '###'
+	const sections = Array.from(groups)
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([directory, files]) => {
+			if (directory === '.') {
+				return generateEntries(files)
+			}
+
+			const indexFile = directoryFiles.find((file) => transformToPosixPath(file.path) === `${directory}.md`)
+			const groupTitle = indexFile?.title ?? directoryNameToTitle(path.posix.basename(directory))
+
+			return `${groupHeading} ${groupTitle}\n\n${generateEntries(files)}`
+		})
+
+	return heading + sections.join('\n')
 }
 
 /**
@@ -245,7 +387,8 @@ export interface GenerateTOCOptions {
  * Each entry in the TOC is formatted as a markdown link to the corresponding
  * text file. If a VitePress sidebar configuration is provided, the TOC will be
  * organized into sections based on the sidebar structure, with heading levels (#, ##, ###)
- * reflecting the nesting depth of the sections.
+ * reflecting the nesting depth of the sections. Optional files are listed
+ * under the `## Optional` section at the end.
  *
  * @param preparedFiles - An array of prepared files.
  * @param options - Options for generating the TOC.
@@ -255,20 +398,57 @@ export async function generateTOC(
 	preparedFiles: PreparedFile[],
 	options: GenerateTOCOptions,
 ): Promise<string> {
-	const { outDir, domain, sidebarConfig, linksExtension, base, directoryFilter } = options
-	let tableOfContent = ''
+	const { domain, linksExtension, base, directoryFilter, pageStats } = options
 
 	// Filter files by directory if directoryFilter is provided
-	const filteredFiles = directoryFilter
+	const directoryFiles = directoryFilter
 		? directoryFilter === '.'
 			? preparedFiles // Root directory includes all files
 			: preparedFiles.filter((file) => {
 					const normalizedPath = transformToPosixPath(file.path)
 					const normalizedFilter = transformToPosixPath(directoryFilter)
-					return normalizedPath.startsWith(`${normalizedFilter}/`) || normalizedPath === normalizedFilter
+					return (
+						normalizedPath.startsWith(`${normalizedFilter}/`) ||
+						normalizedPath === normalizedFilter ||
+						// The `index.md` of the directory
+						normalizedPath === `${normalizedFilter}.md`
+					)
 				})
 		: preparedFiles
 
+	const optionalFiles = directoryFiles.filter((file) => options.optionalFiles?.includes(file))
+	const tableOfContent = await generateSectionsTOC(directoryFiles, optionalFiles, options)
+
+	if (optionalFiles.length === 0) {
+		return tableOfContent
+	}
+
+	const optionalEntries = optionalFiles.map((file) =>
+		generateTOCLink(file, domain, file.path, linksExtension, base, pageStats),
+	)
+
+	const sectionsTOC = tableOfContent.trim() ? `${tableOfContent.trimEnd()}\n\n` : ''
+
+	return `${sectionsTOC}## Optional\n\n${optionalEntries.join('')}`
+}
+
+/**
+ * Generates the TOC entries of the files that aren't optional.
+ *
+ * @param directoryFiles - The files of the directory, including the optional ones.
+ * @param optionalFiles - The optional files, which are matched against the sidebar but not listed.
+ * @param options - Options for generating the TOC.
+ * @returns The TOC without the `## Optional` section.
+ */
+async function generateSectionsTOC(
+	directoryFiles: PreparedFile[],
+	optionalFiles: PreparedFile[],
+	options: GenerateTOCOptions,
+): Promise<string> {
+	const { outDir, domain, sidebarConfig, linksExtension, base, pageStats } = options
+	const filteredFiles = directoryFiles.filter((file) => !optionalFiles.includes(file))
+	let tableOfContent = ''
+
 	// If sidebar configuration exists
 	if (sidebarConfig) {
 		// Flatten sidebar config if it's an object with path keys
@@ -283,11 +463,21 @@ export async function generateTOC(
 			})
 			const sectionResults = await Promise.all(
 				sidebarSections.map((section) =>
-					processSidebarSection(section, filteredFiles, outDir, domain, linksExtension, 3, base),
+					processSidebarSection(
+						section,
+						directoryFiles,
+						outDir,
+						domain,
+						linksExtension,
+						3,
+						base,
+						pageStats,
+						optionalFiles,
+					),
 				),
 			)
 
-			tableOfContent += `${sectionResults.join('\n')}\n`
+			tableOfContent += `${sectionResults.filter(Boolean).join('\n')}\n`
 
 			// Find files that didn't match any section
 			const allSidebarPaths = await collectPathsFromSidebarItems(sidebarSections)
@@ -297,18 +487,7 @@ export async function generateTOC(
 			})
 
 			// Add files that didn't match any section
-			if (unsortedFiles.length > 0) {
-				tableOfContent += '### Other\n\n'
-
-				const tocEntries: string[] = []
-				await Promise.all(
-					unsortedFiles.map(async (file) => {
-						const relativePath = file.path
-						tocEntries.push(generateTOCLink(file, domain, relativePath, linksExtension, base))
-					}),
-				)
-				tableOfContent += tocEntries.join('')
-			}
+			tableOfContent += generateOtherPagesTOC(unsortedFiles, directoryFiles, options)
 
 			// Return the completed TOC
 			return tableOfContent
@@ -320,7 +499,7 @@ export async function generateTOC(
 		const tocEntries = await Promise.all(
 			filteredFiles.map(async (file) => {
 				const relativePath = file.path
-				return generateTOCLink(file, domain, relativePath, linksExtension, base)
+				return generateTOCLink(file, domain, relativePath, linksExtension, base, pageStats)
 			}),
 		)
 
@@ -1,2 +1,3 @@
+export { type BuildLLMDocsOptions, buildLLMDocs } from '@/build'
 export { copyOrDownloadAsMarkdownButtons } from '@/markdown/markdown-it-plugins'
 export { llmstxt as default } from '@/plugin/plugin'
@@ -1,6 +1,7 @@
 import type { GrayMatterFile } from 'gray-matter'
 import type { ResolvedConfig } from 'vite'
 import type { SiteConfig, UserConfig } from 'vitepress'
+import type { LlmstxtSettings } from '@/types'
 
 /** Represents a prepared file, including its title and path. */
 export type PreparedFile = {
@@ -33,12 +34,53 @@ export type PreparedFile = {
 	 * ```
 	 */
 	file: GrayMatterFile<Input>
+
+	/**
+	 * The absolute paths of the files pulled in via `<!--@include:-->` and `<<<` snippets.
+	 *
+	 * @example ['/docs/parts/intro.md', '/docs/snippets/config.ts']
+	 */
+	includes?: string[]
+
+	/**
+	 * The `<!--@include:-->` and `<<<` snippet paths (with the region, if any) that couldn't be resolved.
+	 *
+	 * @example ['./parts/missing.md', '../snippets/config.ts#setup']
+	 */
+	unresolvedIncludes?: string[]
+
+	/**
+	 * The absolute paths of the included files and snippets that don't exist yet.
+	 *
+	 * @example ['/docs/parts/missing.md']
+	 */
+	missingIncludes?: string[]
+
+	/**
+	 * The internal links that don't lead to any page of the site, as written in the source.
+	 *
+	 * @example ['./missing.md#usage']
+	 */
+	brokenLinks?: string[]
+
+	/**
+	 * The timestamp (in milliseconds) of the last commit that changed the source file.
+	 *
+	 * Only resolved if `lastUpdated` is enabled in the VitePress config.
+	 */
+	lastUpdated?: number
 }
 
 export interface VitePressConfig extends Omit<UserConfig, keyof ResolvedConfig>, ResolvedConfig {
 	vitepress: SiteConfig
 }
 
+/** Plugin settings after defaults have been merged and `workDir` has been resolved. */
+export type ResolvedLlmstxtSettings = Omit<LlmstxtSettings, 'ignoreFiles' | 'workDir'> & {
+	ignoreFiles: string[]
+	workDir: string
+}
+
 /** Represents the link extension options for generated links. */
 export type LinksExtension = string | '.md' | '.html'
 
@@ -0,0 +1,163 @@
+import type { Code, Paragraph, Parent, Root } from 'mdast'
+import { visit } from 'unist-util-visit'
+import type { LlmstxtSettings } from '@/types'
+
+/** Matches the language at the start of an info string, e.g. `ts` in `ts:line-numbers{1,3}[config.ts]`. */
+const languageRE = /^[^\s{[:]+/
+
+/** Matches the title of a code block, e.g. `[config.ts]`. */
+const titleRE = /\[([^\]]+)\]/
+
+/**
+ * Matches the VitePress annotations at the end of a line, e.g. `// [!code ++]`, `# [!code focus:3]`
+ * or `<!-- [!code highlight] -->`.
+ *
+ * @see https://vitepress.dev/guide/markdown#focus-in-code-blocks
+ */
+const annotationRE = /[ \t]*(?:\/\/|#|--|<!--|\/\*)[ \t]*\[!code\s+([^\]]+)\][ \t]*(?:-->|\*\/)?[ \t]*$/
+
+/** The line comment delimiters by the language of the code block. */
+const comments: Record<string, [start: string, end?: string]> = Object.fromEntries([
+	...[
+		'js',
+		'jsx',
+		'mjs',
+		'cjs',
+		'javascript',
+		'ts',
+		'tsx',
+		'mts',
+		'cts',
+		'typescript',
+		'jsonc',
+		'json5',
+		'c',
+		'cpp',
+		'c++',
+		'cs',
+		'c#',
+		'java',
+		'kotlin',
+		'kt',
+		'go',
+		'rust',
+		'rs',
+		'swift',
+		'dart',
+		'scala',
+		'php',
+		'scss',
+		'less',
+	].map((lang) => [lang, ['//']]),
+	...[
+		'sh',
+		'bash',
+		'zsh',
+		'shell',
+		'powershell',
+		'ps1',
+		'python',
+		'py',
+		'ruby',
+		'rb',
+		'yaml',
+		'yml',
+		'toml',
+		'dockerfile',
+		'makefile',
+		'r',
+	].map((lang) => [lang, ['#']]),
+	...['html', 'vue', 'vue-html', 'svelte', 'xml', 'svg', 'md', 'markdown'].map((lang) => [
+		lang,
+		['<!--', '-->'],
+	]),
+	...['sql', 'lua', 'haskell'].map((lang) => [lang, ['--']]),
+	['css', ['/*', '*/']],
+])
+
+/**
+ * Parses the info string of a code block.
+ *
+ * @param info - The info string, e.g. `ts{1,3}[config.ts] class="highlight"`.
+ * @returns The bare language and the title, if any.
+ */
+export function parseCodeInfo(info: string): { lang: string | undefined; title: string | undefined } {
+	return {
+		lang: info.trim().match(languageRE)?.[0],
+		title: info.match(titleRE)?.[1]?.trim() || undefined,
+	}
+}
+
+/**
+ * Applies the VitePress annotations of a code block:
+ * the removed lines (`[!code --]`) are dropped, the markers of the other annotations
+ * (`++`, `focus`, `highlight`, `warning`, `error`, etc.) are removed from their lines.
+ *
+ * @param code - The code.
+ * @returns The code as it is after the changes, without the annotations.
+ */
+export function resolveCodeAnnotations(code: string): string {
+	return code
+		.split('\n')
+		.flatMap((line) => {
+			let match = line.match(annotationRE)
+
+			// A line can have several annotations, e.g. `// [!code focus] // [!code ++]`
+			while (match) {
+				if (match[1]?.trim() === '--') return []
+
+				line = line.slice(0, match.index)
+				match = line.match(annotationRE)
+			}
+
+			return [line]
+		})
+		.join('\n')
+}
+
+/**
+ * A Remark plugin that normalizes the code blocks for LLMs.
+ *
+ * VitePress info strings like `ts{1,3}[config.ts]` are reduced to the bare language
+ * and the title is moved out of the info string, so that models don't mistake them for a part of the language.
+ * The annotations are applied, see {@link resolveCodeAnnotations}.
+ *
+ * @param options - The {@link LlmstxtSettings.codeBlocks | `codeBlocks`} setting.
+ * @returns A remark plugin that normalizes the code blocks.
+ */
+function remarkCodeBlocks({
+	title: titleMode = 'label',
+	annotations = true,
+}: NonNullable<LlmstxtSettings['codeBlocks']> = {}) {
+	return () =>
+		(tree: Root): void => {
+			visit(tree, 'code', (node: Code, index, parent: Parent | undefined) => {
+				if (annotations) {
+					node.value = resolveCodeAnnotations(node.value)
+				}
+
+				const { lang, title } = parseCodeInfo([node.lang, node.meta].filter(Boolean).join(' '))
+				node.lang = lang ?? null
+				node.meta = null
+
+				if (!title || titleMode === 'drop' || !parent || typeof index !== 'number') return
+
+				const [start, end] = (lang && comments[lang.toLowerCase()]) || []
+				if (titleMode === 'comment' && start) {
+					node.value = `${start} ${title}${end ? ` ${end}` : ''}\n${node.value}`
+					return
+				}
+
+				// A bold label, like the tabs of code groups
+				const label: Paragraph = {
+					type: 'paragraph',
+					children: [{ type: 'strong', children: [{ type: 'text', value: title }] }],
+				}
+				parent.children.splice(index, 0, label)
+
+				return index + 2
+			})
+		}
+}
+
+export default remarkCodeBlocks
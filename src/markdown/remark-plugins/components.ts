@@ -0,0 +1,204 @@
+import type { Html, Parent, PhrasingContent, Root, RootContent } from 'mdast'
+import { remark } from 'remark'
+import { visit } from 'unist-util-visit'
+import type { ComponentRenderer, LlmstxtSettings } from '@/types'
+
+/** Matches the attributes of a tag, e.g. ` type="tip" :count="3" disabled`. */
+const attributesPattern = String.raw`((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*`
+
+/** Matches a single attribute. */
+const attributeRE = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+
+/** Matches an opening tag that is the only content of an HTML node. */
+const openingTagRE = new RegExp(String.raw`^<([A-Za-z][\w-]*)${attributesPattern}>$`)
+
+/**
+ * Unwraps the named slots (`<template #title>`) of a team page component, turning the title into a heading.
+ *
+ * @param slot - The content of the component.
+ * @param heading - The heading prefix of the title, e.g. `##`.
+ * @returns The markdown.
+ */
+const renderTeamSlots = (slot: string, heading: string): string =>
+	slot
+		.replace(
+			/[ \t]*<template\s+(?:#|v-slot:)title\s*>([\s\S]*?)<\/template>/g,
+			(_, title: string) => `${heading} ${title.trim()}\n\n`,
+		)
+		.replace(
+			/[ \t]*<template\s+(?:#|v-slot:)\w+\s*>([\s\S]*?)<\/template>/g,
+			(_, content: string) => `${content.trim()}\n\n`,
+		)
+		.trim()
+
+/**
+ * Renderers of the components of the VitePress default theme and the built-in ones.
+ *
+ * @see https://vitepress.dev/reference/default-theme-badge
+ * @see https://vitepress.dev/reference/default-theme-team-page
+ */
+export const defaultComponents: Record<string, ComponentRenderer> = {
+	Badge: (props, slot) => {
+		const text = slot || (typeof props['text'] === 'string' ? props['text'] : '')
+		return text ? `(${text})` : ''
+	},
+	VPButton: (props) =>
+		typeof props['text'] === 'string' ? `[${props['text']}](${props['href'] ?? ''})` : '',
+	VPLink: (props, slot) => (typeof props['href'] === 'string' ? `[${slot}](${props['href']})` : slot),
+	ClientOnly: (_, slot) => slot,
+	VPTeamPage: (_, slot) => slot,
+	VPTeamPageSection: (_, slot) => renderTeamSlots(slot, '###'),
+	VPTeamPageTitle: (_, slot) => renderTeamSlots(slot, '##'),
+	// The members are defined in the script of the page, there's nothing to render
+	VPTeamMembers: () => '',
+}
+
+/**
+ * Merges the user-defined component renderers with the {@link defaultComponents | default ones}.
+ *
+ * @param components - The {@link LlmstxtSettings.components | `components`} setting.
+ * @returns The renderers, without the ones that are turned off.
+ */
+export function resolveComponentRenderers(
+	components: Record<string, ComponentRenderer | false> = {},
+): Record<string, ComponentRenderer> {
+	return Object.fromEntries(
+		Object.entries({ ...defaultComponents, ...components }).filter(
+			(entry): entry is [string, ComponentRenderer] => entry[1] !== false,
+		),
+	)
+}
+
+/**
+ * Converts a tag name to the name of the component, e.g. `api-table` to `ApiTable`.
+ *
+ * @param tag - The tag name.
+ * @returns The component name.
+ */
+const toComponentName = (tag: string): string =>
+	tag.includes('-') ? tag.replace(/(^|-)([a-z])/g, (_, __, char: string) => char.toUpperCase()) : tag
+
+/**
+ * Parses the attributes of a component.
+ *
+ * @param attributes - The attributes as written in the tag.
+ * @returns The props, see {@link ComponentRenderer}.
+ */
+function parseProps(attributes: string): Record<string, string | true> {
+	const props: Record<string, string | true> = {}
+
+	for (const [, rawName = '', doubleQuoted, singleQuoted, unquoted] of attributes.matchAll(attributeRE)) {
+		const value = doubleQuoted ?? singleQuoted ?? unquoted
+		const name = rawName.replace(/^(:|v-bind:)/, '')
+		const isBound = name !== rawName
+
+		// Unwrap string literals of bound props, e.g. `:text="'beta'"`
+		props[name] = value === undefined ? true : isBound ? value.replace(/^(['"`])(.*)\1$/, '$2') : value
+	}
+
+	return props
+}
+
+/**
+ * Renders the components in a string of HTML.
+ *
+ * @param html - The HTML.
+ * @param renderers - The component renderers.
+ * @returns The HTML with the components that have a renderer replaced with their markdown.
+ */
+function renderComponentsInHTML(html: string, renderers: Record<string, ComponentRenderer>): string {
+	const componentRE = new RegExp(
+		String.raw`<([A-Za-z][\w-]*)${attributesPattern}(?:\/>|>([\s\S]*?)<\/\1\s*>)`,
+		'g',
+	)
+
+	return html.replace(componentRE, (element, tag: string, attributes: string, slot: string | undefined) => {
+		const render = renderers[toComponentName(tag)]
+		const rendered = render?.(parseProps(attributes), renderComponentsInHTML(slot?.trim() ?? '', renderers))
+
+		return rendered ?? element
+	})
+}
+
+/**
+ * A Remark plugin that renders the Vue components used in the markdown to markdown.
+ *
+ * Handles components written in a single HTML node (`<Badge type="tip" text="beta" />`)
+ * as well as the ones whose opening and closing tags wrap markdown content.
+ *
+ * @param renderers - The component renderers by the name of the component.
+ * @returns A remark plugin that renders the components.
+ */
+function remarkComponents(renderers: Record<string, ComponentRenderer>) {
+	/**
+	 * Parses the rendered markdown.
+	 *
+	 * @param markdown - The markdown.
+	 * @param inline - Whether the nodes are placed in a paragraph or a heading.
+	 * @returns The nodes of the markdown.
+	 */
+	const parse = (markdown: string, inline: boolean): RootContent[] => {
+		const children = remark().parse(markdown).children
+		return inline
+			? children.flatMap((node) => (node.type === 'paragraph' ? node.children : [node]))
+			: children
+	}
+
+	/**
+	 * Serializes the nodes between the opening and the closing tags of a component.
+	 *
+	 * @param nodes - The nodes.
+	 * @returns The markdown.
+	 */
+	const stringify = (nodes: RootContent[]): string =>
+		remark()
+			.stringify({ type: 'root', children: nodes } as Root)
+			.trim()
+
+	return () =>
+		(tree: Root): void => {
+			visit(tree, 'html', (node: Html, index, parent: Parent | undefined) => {
+				if (!parent || typeof index !== 'number') return
+
+				const inline = parent.type !== 'root' && parent.type !== 'blockquote' && parent.type !== 'listItem'
+				const [, tag, attributes = ''] = node.value.trim().match(openingTagRE) ?? []
+				const render = tag && renderers[toComponentName(tag)]
+
+				// A component wrapping markdown content, e.g. `<Badge>`, `beta`, `</Badge>`
+				if (render) {
+					const closingIndex = parent.children.findIndex(
+						(sibling, siblingIndex) =>
+							siblingIndex > index &&
+							sibling.type === 'html' &&
+							new RegExp(String.raw`^<\/${tag}\s*>$`).test(sibling.value.trim()),
+					)
+
+					if (closingIndex !== -1) {
+						const slot = parent.children.slice(index + 1, closingIndex) as RootContent[]
+						const rendered = render(parseProps(attributes), stringify(slot))
+
+						if (rendered !== undefined) {
+							const nodes = parse(rendered, inline)
+							parent.children.splice(index, closingIndex - index + 1, ...(nodes as PhrasingContent[]))
+							return index
+						}
+					}
+				}
+
+				const html = renderComponentsInHTML(node.value, renderers)
+				if (html === node.value) return
+
+				// Only turn the HTML into markdown if nothing else is left, otherwise it would be lost
+				if (/<\/?[A-Za-z]/.test(html)) {
+					node.value = html
+					return
+				}
+
+				const nodes = parse(html, inline)
+				parent.children.splice(index, 1, ...(nodes as PhrasingContent[]))
+				return index + nodes.length
+			})
+		}
+}
+
+export default remarkComponents
@@ -0,0 +1,214 @@
+import type { Paragraph, Parent, PhrasingContent, Root, RootContent } from 'mdast'
+import { remark } from 'remark'
+import type { ContainerRenderer } from '@/types'
+
+/** Matches a line opening (`::: warning Title`) or closing (`:::`) a container. */
+const markerRE = /^[ \t]*(:{3,})[ \t]*(?:([\w-]+)[ \t]*(.*?))?[ \t]*$/
+
+/** A line opening or closing a container. */
+interface Marker {
+	/** The number of colons, a container is closed by a marker with at least as many colons. */
+	colons: number
+
+	/** The container type, `undefined` for closing markers. */
+	type?: string | undefined
+
+	/** The custom title of the container. */
+	title?: string | undefined
+
+	/** The line as written in the source. */
+	raw: string
+}
+
+/**
+ * Wraps the markdown in a blockquote with a bold label at the start.
+ *
+ * @param label - The label, e.g. `Warning`.
+ * @param content - The markdown of the container.
+ * @returns The blockquote.
+ */
+const callout = (label: string, content: string): string => {
+	// The label can't be prepended to a code block, a list or a heading
+	const startsWithBlock = !content || /^(`{3,}|~{3,}|[-*+] |\d+[.)] |#|>|\||<)/.test(content)
+	const text = startsWithBlock ? `**${label}:**\n\n${content}` : `**${label}:** ${content}`
+
+	return text
+		.trim()
+		.split('\n')
+		.map((line) => (line ? `> ${line}` : '>'))
+		.join('\n')
+}
+
+/**
+ * Renderers of the VitePress containers by the container type.
+ *
+ * @see https://vitepress.dev/guide/markdown#custom-containers
+ * @see https://vitepress.dev/guide/markdown#code-groups
+ */
+export const defaultContainers: Record<string, ContainerRenderer> = {
+	info: (content, title) => callout(title || 'Info', content),
+	tip: (content, title) => callout(title || 'Tip', content),
+	warning: (content, title) => callout(title || 'Warning', content),
+	danger: (content, title) => callout(title || 'Danger', content),
+	details: (content, title) => callout(title || 'Details', content),
+	// Each tab becomes a code block preceded by its label, e.g. **config.ts**
+	'code-group': (content) =>
+		content.replace(
+			/^([ \t]*)(`{3,}|~{3,})([^\s[]*)[ \t]*\[([^\]]+)\](.*)$/gm,
+			(_, indent: string, fence: string, lang: string, label: string, meta: string) =>
+				`${indent}**${label}**\n\n${indent}${fence}${lang}${meta.trimEnd()}`,
+		),
+	raw: (content) => content,
+}
+
+/**
+ * Merges the user-defined container renderers with the {@link defaultContainers | default ones}.
+ *
+ * @param containers - The {@link LlmstxtSettings.containers | `containers`} setting.
+ * @returns The renderers, without the ones that are turned off.
+ */
+export function resolveContainerRenderers(
+	containers: Record<string, ContainerRenderer | false> = {},
+): Record<string, ContainerRenderer> {
+	return Object.fromEntries(
+		Object.entries({ ...defaultContainers, ...containers }).filter(
+			(entry): entry is [string, ContainerRenderer] => entry[1] !== false,
+		),
+	)
+}
+
+/**
+ * Parses a container marker.
+ *
+ * @param line - A line of text.
+ * @returns The marker, or `undefined` if the line isn't one.
+ */
+function parseMarker(line: string): Marker | undefined {
+	const [, colons, type, title] = line.match(markerRE) ?? []
+
+	return colons ? { colons: colons.length, type, title: title || undefined, raw: line } : undefined
+}
+
+/**
+ * Splits the container markers off from the content of a paragraph,
+ * since the markdown parser doesn't know about containers and merges them with the adjacent lines.
+ *
+ * @param paragraph - The paragraph.
+ * @returns The markers and the parts of the paragraph between them, in the source order.
+ */
+function splitMarkers(paragraph: Paragraph): (Marker | RootContent)[] {
+	const tokens: (Marker | RootContent)[] = []
+	let children: PhrasingContent[] = []
+
+	const flush = () => {
+		if (children.length) {
+			tokens.push({ ...paragraph, children })
+			children = []
+		}
+	}
+
+	for (const child of paragraph.children) {
+		if (child.type !== 'text') {
+			children.push(child)
+			continue
+		}
+
+		let text: string[] = []
+		for (const line of child.value.split('\n')) {
+			const marker = parseMarker(line)
+			if (!marker) {
+				text.push(line)
+				continue
+			}
+
+			if (text.join('\n')) {
+				children.push({ ...child, value: text.join('\n') })
+			}
+			text = []
+			flush()
+			tokens.push(marker)
+		}
+
+		if (text.join('\n')) {
+			children.push({ ...child, value: text.join('\n') })
+		}
+	}
+
+	flush()
+
+	return tokens.some((token) => 'colons' in token) ? tokens : [paragraph]
+}
+
+/**
+ * A Remark plugin that converts the VitePress containers (`::: tip`, `::: code-group`, etc.)
+ * into plain markdown, like blockquote callouts and labeled code blocks.
+ *
+ * Containers without a renderer are left as they are.
+ *
+ * @param renderers - The container renderers by the container type.
+ * @returns A remark plugin that converts the containers.
+ */
+function remarkContainers(renderers: Record<string, ContainerRenderer>) {
+	const toParagraph = (marker: Marker): Paragraph => ({
+		type: 'paragraph',
+		children: [{ type: 'text', value: marker.raw }],
+	})
+
+	const stringify = (nodes: RootContent[]): string =>
+		remark().stringify({ type: 'root', children: nodes }).trim()
+
+	const transform = (parent: Parent): void => {
+		for (const child of parent.children) {
+			if ('children' in child && child.type !== 'paragraph') {
+				transform(child)
+			}
+		}
+
+		const tokens = parent.children.flatMap((child) =>
+			child.type === 'paragraph' ? splitMarkers(child) : [child],
+		)
+		if (!tokens.some((token) => 'colons' in token)) return
+
+		const root: RootContent[] = []
+		const stack: { marker: Marker; nodes: RootContent[] }[] = []
+		const current = () => stack.at(-1)?.nodes ?? root
+
+		for (const token of tokens) {
+			if (!('colons' in token)) {
+				current().push(token)
+			} else if (token.type) {
+				stack.push({ marker: token, nodes: [] })
+			} else {
+				const frame = stack.at(-1)
+				if (!frame || token.colons < frame.marker.colons) {
+					current().push(toParagraph(token))
+					continue
+				}
+
+				stack.pop()
+				const render = renderers[frame.marker.type as string]
+				const rendered = render?.(stringify(frame.nodes), frame.marker.title)
+
+				current().push(
+					...(rendered === undefined
+						? [toParagraph(frame.marker), ...frame.nodes, toParagraph(token)]
+						: remark().parse(rendered).children),
+				)
+			}
+		}
+
+		// Containers that are never closed are left as they are
+		for (const frame of stack.splice(0)) {
+			current().push(toParagraph(frame.marker), ...frame.nodes)
+		}
+
+		parent.children = root
+	}
+
+	return () =>
+		(tree: Root): void => {
+			transform(tree)
+		}
+}
+
+export default remarkContainers
@@ -0,0 +1,184 @@
+import type { Html, Nodes, Parent, Root } from 'mdast'
+import { remark } from 'remark'
+import { visit } from 'unist-util-visit'
+import type { ImagesMode } from '@/types'
+
+/** Matches HTML `<img>` tags. */
+const htmlImageRE = /<img\b[^>]*>/gi
+
+/**
+ * Reads an attribute of an HTML tag.
+ *
+ * @param tag - The HTML tag.
+ * @param name - The name of the attribute.
+ * @returns The value of the attribute, or `undefined` if it's missing.
+ */
+const getAttribute = (tag: string, name: string): string | undefined =>
+	tag.match(new RegExp(`\\s${name}\\s*=\\s*(["'])(.*?)\\1`, 'i'))?.[2]
+
+/**
+ * Collects the text of a node and its descendants.
+ *
+ * @param node - The node.
+ * @returns The text without any markup.
+ */
+const toText = (node: Nodes): string =>
+	'value' in node ? node.value : 'children' in node ? node.children.map(toText).join('') : ''
+
+/**
+ * Builds the textual placeholder of an image.
+ *
+ * @param parts - The alt text, the title and the caption of the image, empty parts are skipped.
+ * @returns The placeholder, e.g. `[Image: Request flow — Figure 1]`.
+ */
+export function generateImagePlaceholder(...parts: (string | null | undefined)[]): string {
+	const text = Array.from(new Set(parts.map((part) => part?.trim()).filter(Boolean))).join(' — ')
+
+	return text ? `[Image: ${text}]` : '[Image]'
+}
+
+/** Matches the start of an explicit caption, e.g. `Figure 1:` or `Fig. 2`. */
+const captionMarkerRE = /^(?:figure|fig\.)\s/i
+
+/**
+ * Finds the caption of an image that is the only content of its paragraph,
+ * i.e. a paragraph right after it that consists of a single emphasis, like `*Figure 1: Request flow*`.
+ *
+ * @param parent - The parent of the paragraph of the image.
+ * @param index - The index of the paragraph of the image.
+ * @param requireMarker - Whether the caption has to start with `Figure` or `Fig.`,
+ *   so that an emphasized note after an image isn't mistaken for its caption.
+ * @returns The caption text, or `undefined` if there is no caption.
+ */
+function findCaption(parent: Parent, index: number, requireMarker: boolean): string | undefined {
+	const next = parent.children[index + 1]
+
+	if (next?.type === 'paragraph' && next.children.length === 1 && next.children[0]?.type === 'emphasis') {
+		const caption = toText(next.children[0])
+
+		return !requireMarker || captionMarkerRE.test(caption.trim()) ? caption : undefined
+	}
+
+	return undefined
+}
+
+/**
+ * A Remark plugin that replaces images with textual placeholders built from the alt text, the title
+ * and an adjacent caption, or removes them along with their captions.
+ *
+ * @param mode - `'placeholder'` or `'drop'`, `'keep'` leaves the images as is.
+ * @returns A remark plugin that transforms the images.
+ */
+function remarkImages(mode: ImagesMode) {
+	return () =>
+		(tree: Root): void => {
+			if (mode === 'keep') return
+
+			const toPlaceholder = (alt?: string | null, title?: string | null, caption?: string): Html => ({
+				type: 'html',
+				value: mode === 'drop' ? '' : generateImagePlaceholder(alt, title, caption),
+			})
+
+			// Images that are the only content of their paragraph, along with their captions
+			visit(tree, 'paragraph', (node, index, parent) => {
+				if (!parent || typeof index !== 'number') return
+
+				const [image, ...rest] = node.children.filter(
+					(child) => !(child.type === 'text' && !child.value.trim()),
+				)
+				if (rest.length || (image?.type !== 'image' && image?.type !== 'imageReference')) return
+
+				// Dropped captions are lost, unlike the ones put into the placeholders
+				const caption = findCaption(parent, index, mode === 'drop')
+				const replacement =
+					mode === 'drop'
+						? []
+						: [
+								{
+									type: 'paragraph' as const,
+									children: [
+										toPlaceholder(image.alt, image.type === 'image' ? image.title : undefined, caption),
+									],
+								},
+							]
+
+				parent.children.splice(index, caption === undefined ? 1 : 2, ...replacement)
+
+				return index + replacement.length
+			})
+
+			// Inline images
+			visit(tree, ['image', 'imageReference'], (node, index, parent) => {
+				if (!parent || typeof index !== 'number') return
+				if (node.type !== 'image' && node.type !== 'imageReference') return
+
+				if (mode === 'placeholder') {
+					parent.children.splice(
+						index,
+						1,
+						toPlaceholder(node.alt, node.type === 'image' ? node.title : undefined),
+					)
+					return
+				}
+
+				parent.children.splice(index, 1)
+
+				// Avoid a double space where the image was
+				const [previous, next] = [parent.children[index - 1], parent.children[index]]
+				if (previous?.type === 'text' && next?.type === 'text' && /\s$/.test(previous.value)) {
+					next.value = next.value.trimStart()
+				}
+
+				return index
+			})
+
+			visit(tree, 'html', (node) => {
+				node.value = node.value.replace(htmlImageRE, (tag) =>
+					mode === 'drop'
+						? ''
+						: generateImagePlaceholder(getAttribute(tag, 'alt'), getAttribute(tag, 'title')),
+				)
+			})
+		}
+}
+
+/**
+ * Replaces or removes the images of a processed page, see {@link remarkImages}.
+ *
+ * @param content - The processed markdown without the frontmatter.
+ * @param mode - How the images are rendered.
+ * @returns The content with the images transformed.
+ */
+export function renderImages(content: string, mode: ImagesMode = 'keep'): string {
+	if (mode === 'keep') {
+		return content
+	}
+
+	return String(remark().use(remarkImages(mode)).processSync(content))
+}
+
+/**
+ * Finds the images without an alt text.
+ *
+ * @param content - The processed markdown without the frontmatter.
+ * @returns The URLs of the images.
+ */
+export function findImagesWithoutAlt(content: string): string[] {
+	const images: string[] = []
+
+	visit(remark().parse(content), ['image', 'html'], (node) => {
+		if (node.type === 'image' && !node.alt?.trim()) {
+			images.push(node.url)
+		} else if (node.type === 'html') {
+			for (const tag of node.value.match(htmlImageRE) ?? []) {
+				if (!getAttribute(tag, 'alt')?.trim()) {
+					images.push(getAttribute(tag, 'src') ?? tag)
+				}
+			}
+		}
+	})
+
+	return images
+}
+
+export default remarkImages
@@ -1,21 +1,92 @@
 import path from 'node:path'
 import type { Root } from 'mdast'
 import { visit } from 'unist-util-visit'
+import type { VFile } from 'vfile'
+import { generateLink } from '@/utils/template-utils'
+
+/** Options for {@link remarkReplaceImageUrls}. */
+export interface ReplaceImageUrlsOptions {
+	/** The VitePress source directory, absolute URLs (`/logo.png`) are resolved against it. */
+	srcDir?: string
+
+	/** The base URL path from the VitePress config. */
+	base?: string
+
+	/** The domain to prepend to the URLs. */
+	domain?: string
+}
+
+/** Matches `<img>`, `<video>` and `<source>` tags. */
+const htmlMediaTagRE = /<(?:img|video|source)\b[^>]*>/gi
+
+/** Matches the URL attributes of a tag. */
+const urlAttributeRE = /(\s(?:src|poster)\s*=\s*)(["'])(.*?)\2/gi
 
 /**
- * A Remark plugin that replaces image URLs with their hashed equivalents.
+ * A Remark plugin that replaces image and video URLs with the URLs of their hashed equivalents.
  *
- * @param map - Map of original image file names to hashed file paths.
- * @returns A remark plugin that rewrites image URLs.
+ * Assets are looked up by their full source path, resolved against the page for relative URLs
+ * and against `srcDir` for absolute ones. Absolute URLs of assets that aren't in the bundle
+ * are served from the `public` directory as is, so they only get the `base` and the `domain`.
+ *
+ * @param map - Map of the source paths of the assets to the hashed file paths.
+ * @param options - Where the assets are resolved from and served at.
+ * @returns A remark plugin that rewrites image and video URLs.
  */
-function remarkReplaceImageUrls(map: Map<string, string>) {
+function remarkReplaceImageUrls(
+	map: Map<string, string>,
+	{ srcDir, base, domain }: ReplaceImageUrlsOptions = {},
+) {
+	/**
+	 * Hashed file paths of the assets without a source path, by their unique names.
+	 *
+	 * Assets with a source path are only matched by it, otherwise an image inlined by Vite
+	 * would be mapped to an asset with the same name from another folder.
+	 */
+	const assetsByName = new Map<string, string | undefined>()
+	for (const [source, hashed] of map) {
+		if (path.isAbsolute(source)) continue
+
+		const name = path.basename(source)
+		assetsByName.set(name, assetsByName.has(name) ? undefined : hashed)
+	}
+
+	const resolveUrl = (url: string, file: VFile): string => {
+		// Skip external URLs and data URIs
+		if (!url || /^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(url)) {
+			return url
+		}
+
+		const [, assetPath = '', suffix = ''] = url.match(/^([^#?]*)(.*)$/) ?? []
+		const isAbsolute = assetPath.startsWith('/')
+		const sourcePath = isAbsolute
+			? srcDir && path.join(srcDir, assetPath)
+			: file.path && path.resolve(path.dirname(file.path), assetPath)
+
+		const hashed = (sourcePath && map.get(sourcePath)) ?? assetsByName.get(path.posix.basename(assetPath))
+
+		if (hashed) {
+			return `${generateLink(hashed, domain, undefined, base)}${suffix}`
+		}
+
+		return isAbsolute ? `${generateLink(assetPath.slice(1), domain, undefined, base)}${suffix}` : url
+	}
+
 	return () =>
-		(tree: Root): void => {
-			visit(tree, 'image', (node) => {
-				const original = path.posix.basename(node.url)
-				const hashed = map.get(original)
-				if (hashed) {
-					node.url = `/${hashed}`
+		(tree: Root, file: VFile): void => {
+			visit(tree, ['image', 'definition', 'html'], (node) => {
+				if (node.type === 'image') {
+					node.url = resolveUrl(node.url, file)
+				} else if (node.type === 'definition' && /\.(png|jpe?g|gif|svg|webp|avif)$/i.test(node.url)) {
+					node.url = resolveUrl(node.url, file)
+				} else if (node.type === 'html') {
+					node.value = node.value.replace(htmlMediaTagRE, (tag) =>
+						tag.replace(
+							urlAttributeRE,
+							(_, prefix: string, quote: string, url: string) =>
+								`${prefix}${quote}${resolveUrl(url, file)}${quote}`,
+						),
+					)
 				}
 			})
 		}
@@ -0,0 +1,99 @@
+import path from 'node:path'
+import type { Root } from 'mdast'
+import { visit } from 'unist-util-visit'
+import type { VFile } from 'vfile'
+
+/** Options for {@link remarkReplaceLinks}. */
+export interface ReplaceLinksOptions {
+	/**
+	 * The URLs of the LLM-friendly pages by the route of the page (see {@link resolveRoute}).
+	 *
+	 * Pages that exist but don't have an LLM-friendly version are mapped to `undefined`.
+	 *
+	 * @example new Map([['guide/getting-started', '/guide/getting-started.md'], ['', '/index.md']])
+	 */
+	pages: Map<string, string | undefined>
+
+	/**
+	 * The output path of the current page relative to the source directory, used for relative links.
+	 *
+	 * @example 'guide/index.md'
+	 */
+	pagePath: string
+
+	/** The base URL path from the VitePress config. */
+	base?: string
+}
+
+/**
+ * Resolves the route of a page from its output path or a link to it.
+ *
+ * @param pagePath - The path of the page relative to the source directory, without the leading slash.
+ * @returns The route without the extension and the trailing `index`, or `undefined` if it's a link to an asset.
+ *
+ * @example
+ * resolveRoute('guide/index.md') // 'guide'
+ * resolveRoute('guide/getting-started.html') // 'guide/getting-started'
+ * resolveRoute('files/manual.pdf') // undefined
+ */
+export function resolveRoute(pagePath: string): string | undefined {
+	const isDirectory = pagePath === '' || pagePath.endsWith('/')
+	const extension = path.posix.extname(pagePath)
+
+	if (!isDirectory && extension && extension !== '.md' && extension !== '.html') {
+		return undefined
+	}
+
+	const route = isDirectory ? pagePath : pagePath.slice(0, pagePath.length - extension.length)
+
+	return route.replace(/(^|\/)index$/, '').replace(/\/+$/, '')
+}
+
+/**
+ * A Remark plugin that rewrites internal links to the LLM-friendly versions of the pages.
+ *
+ * Both absolute (`/guide/foo`) and relative (`./bar.md#x`, `../baz.html`) links are resolved,
+ * links to pages without an LLM-friendly version are left as is.
+ * Links to pages that don't exist are collected in `file.data.brokenLinks`.
+ *
+ * @param options - The pages of the site and the current page.
+ * @returns A remark plugin that rewrites the links.
+ */
+function remarkReplaceLinks({ pages, pagePath, base = '/' }: ReplaceLinksOptions) {
+	return () =>
+		(tree: Root, file: VFile): void => {
+			const brokenLinks: string[] = []
+
+			visit(tree, ['link', 'definition'], (node) => {
+				if (node.type !== 'link' && node.type !== 'definition') return
+
+				// Skip external links, protocol-relative URLs and anchors on the same page
+				if (/^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(node.url) || !node.url) return
+
+				const [, linkPath = '', suffix = ''] = node.url.match(/^([^#?]*)(.*)$/) ?? []
+
+				const absolutePath = linkPath.startsWith('/')
+					? `/${linkPath.startsWith(base) ? linkPath.slice(base.length) : linkPath.slice(1)}`
+					: path.posix.join('/', path.posix.dirname(pagePath), linkPath) + (linkPath.endsWith('/') ? '/' : '')
+				const route = resolveRoute(absolutePath.slice(1))
+
+				if (route === undefined) return
+
+				if (!pages.has(route)) {
+					brokenLinks.push(node.url)
+					return
+				}
+
+				const url = pages.get(route)
+				if (url) {
+					node.url = `${url}${suffix}`
+				}
+			})
+
+			if (file.data) {
+				file.data['brokenLinks'] = brokenLinks
+			}
+		}
+}
+
+export default remarkReplaceLinks
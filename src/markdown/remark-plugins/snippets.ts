@@ -3,9 +3,13 @@ import path from 'node:path'
 import matter from 'gray-matter'
 import type { Html, Root } from 'mdast'
 import { fromMarkdown } from 'mdast-util-from-markdown'
-import { visit } from 'unist-util-visit'
+import { SKIP, visit } from 'unist-util-visit'
 import type { VFile } from 'vfile'
+import type { Alias } from 'vite'
+import type { ProvenanceMode } from '@/types'
+import { transformToPosixPath } from '@/utils/file-utils'
 import log from '@/utils/logger'
+import { formatProvenanceMarker, parseProvenanceMarker } from '@/utils/provenance'
 
 interface IncludeOptions {
 	/**
@@ -19,12 +23,38 @@ interface IncludeOptions {
 	 * @default true
 	 */
 	stripFrontmatter?: boolean
+
+	/**
+	 * The aliases of Vite's `resolve.alias` config, applied to the included paths
+	 */
+	aliases?: Alias[]
+
+	/**
+	 * How the included content is marked with its source, not marked if unset
+	 */
+	provenance?: ProvenanceMode | false | undefined
+
+	/**
+	 * Maximum nesting depth of includes, the page including a file is depth 1
+	 *
+	 * @default 10
+	 */
+	maxDepth?: number | undefined
 }
 
 interface ProcessingOptions extends IncludeOptions {
 	content: string
 	filePath: string
 	includes: string[]
+	/** Includes and snippets that couldn't be resolved, as written in the source */
+	unresolved: string[]
+	/** The absolute paths of the included files and snippets that don't exist */
+	missing?: string[]
+	/**
+	 * The files including the content, from the page to `filePath`, for detecting cycles.
+	 * Each one is followed by its included region and line range, e.g. `/docs/parts/a.md#intro{1,5}`.
+	 */
+	parents?: string[]
 }
 
 //#region Regexes
@@ -149,6 +179,64 @@ function dedent(text: string): string {
 	return text
 }
 
+/**
+ * Resolves an included path that starts with an alias.
+ *
+ * `@` always refers to the source directory like in VitePress, even if Vite has an `@` alias.
+ *
+ * @returns The absolute path, or `undefined` if the path isn't aliased.
+ */
+function resolveAliasedPath(rawPath: string, srcDir: string, aliases: Alias[] = []): string | undefined {
+	for (const { find, replacement } of aliases) {
+		if (find === '@') continue
+
+		// The same matching as in Vite
+		if (typeof find === 'string' ? rawPath === find || rawPath.startsWith(`${find}/`) : find.test(rawPath)) {
+			return path.resolve(rawPath.replace(find, replacement))
+		}
+	}
+
+	if (rawPath[0] === '@') {
+		return path.join(srcDir, rawPath.slice(rawPath[1] === '/' ? 2 : 1))
+	}
+
+	return undefined
+}
+
+/**
+ * Wraps the included content with the markers of its source, if enabled.
+ *
+ * The markers are always HTML comments here, they are converted to the configured format
+ * once the content is parsed.
+ */
+function withProvenance(
+	content: string,
+	includePath: string,
+	lines: [number, number],
+	{ srcDir, provenance }: Pick<IncludeOptions, 'srcDir' | 'provenance'>,
+): string {
+	if (!provenance) return content
+
+	const source = transformToPosixPath(path.relative(srcDir, includePath))
+
+	return [
+		formatProvenanceMarker({ end: false, source, lines }, 'comment'),
+		content,
+		formatProvenanceMarker({ end: true, source }, 'comment'),
+	].join('\n\n')
+}
+
+/**
+ * Counts the lines of a file, the newline at the end of the file doesn't start another line.
+ */
+const countLines = (content: string): number => content.replace(/\r?\n$/, '').split(/\r?\n/).length
+
+/**
+ * Formats a chain of includes for error messages, e.g. `guide/page.md -> parts/a.md -> parts/b.md`.
+ */
+const formatIncludeChain = (chain: string[], srcDir: string): string =>
+	chain.map((file) => transformToPosixPath(path.relative(srcDir, file))).join(' -> ')
+
 /**
  * Process includes recursively (VitePress algorithm)
  */
@@ -157,7 +245,13 @@ function processIncludes({
 	content,
 	filePath,
 	includes,
+	unresolved,
+	missing,
 	stripFrontmatter,
+	aliases,
+	provenance,
+	maxDepth = 10,
+	parents = filePath ? [filePath] : [],
 }: ProcessingOptions): string {
 	return content.replace(includesRE, (m: string, m1: string) => {
 		if (!m1.length) return m
@@ -171,55 +265,97 @@ function processIncludes({
 			m1 = m1.slice(0, -len) // remove meta info from the include path
 		}
 
-		const atPresent = m1[0] === '@'
+		let includePath: string
+		let content: string
 
 		try {
-			const includePath = atPresent
-				? path.join(srcDir, m1.slice(m1[1] === '/' ? 2 : 1))
-				: path.join(path.dirname(filePath), m1)
+			includePath = resolveAliasedPath(m1, srcDir, aliases) ?? path.join(path.dirname(filePath), m1)
 
 			if (!fs.existsSync(includePath)) {
+				missing?.push(includePath)
 				throw new Error(`File not found: ${includePath}`)
 			}
 
-			let content = fs.readFileSync(includePath, 'utf-8')
+			content = fs.readFileSync(includePath, 'utf-8')
+		} catch (_error) {
+			log.warn(`[remark-include] Include file not found: ${m1}`)
+			unresolved.push(m1)
 
-			// Handle region selection
-			if (region) {
-				const [regionName] = region
-				const lines = content.split(/\r?\n/)
-				const regionData = findRegion(lines, regionName.slice(1))
+			return m // silently ignore error if file is not present
+		}
 
-				if (regionData) {
-					content = lines.slice(regionData.start, regionData.end).join('\n')
-				} else {
-					console.warn(`[remark-include] Region '${regionName}' not found in ${includePath}`)
-				}
-			}
+		// A file can include another part of itself, only the same part again is a cycle
+		const includedPart = `${includePath}${region?.[0] ?? ''}${range?.[0] ?? ''}`
 
-			// Handle line range selection
-			if (range) {
-				const [, startLine, endLine] = range
-				const lines = content.split(/\r?\n/)
-				content = lines
-					.slice(startLine ? parseInt(startLine) - 1 : undefined, endLine ? parseInt(endLine) : undefined)
-					.join('\n')
-			}
+		// The recursion below would never end
+		if (parents.includes(includedPart)) {
+			throw new Error(`Circular include: ${formatIncludeChain([...parents, includedPart], srcDir)}`)
+		}
 
-			// Strip frontmatter from .md files if no meta info present
-			if (!hasMeta && path.extname(includePath) === '.md' && stripFrontmatter) {
-				content = matter(content).content
-			}
+		if (parents.length > maxDepth) {
+			throw new Error(
+				`Includes are nested deeper than ${maxDepth} levels: ${formatIncludeChain([...parents, includedPart], srcDir)}`,
+			)
+		}
 
-			includes.push(includePath)
+		// The first and the last included line of the file
+		let sourceLines: [number, number] = [1, countLines(content)]
+
+		// Handle region selection
+		if (region) {
+			const [regionName] = region
+			const lines = content.split(/\r?\n/)
+			const regionData = findRegion(lines, regionName.slice(1))
+
+			if (regionData) {
+				content = lines.slice(regionData.start, regionData.end).join('\n')
+				sourceLines = [regionData.start + 1, regionData.end]
+			} else {
+				console.warn(`[remark-include] Region '${regionName}' not found in ${includePath}`)
+				unresolved.push(`${m1}${regionName}`)
+			}
+		}
 
-			// Recursively process includes in the content
-			return processIncludes({ srcDir, content, filePath, includes, stripFrontmatter })
-		} catch (_error) {
-			log.warn(`[remark-include] Include file not found: ${m1}`)
+		// Handle line range selection
+		if (range) {
+			const [, startLine, endLine] = range
+			const lines = content.split(/\r?\n/)
+			content = lines
+				.slice(startLine ? parseInt(startLine) - 1 : undefined, endLine ? parseInt(endLine) : undefined)
+				.join('\n')
+
+			const [first, last] = sourceLines
+			sourceLines = [
+				first + (startLine ? parseInt(startLine) - 1 : 0),
+				endLine ? Math.min(first + parseInt(endLine) - 1, last) : last,
+			]
+		}
 
-			return m // silently ignore error if file is not present
+		// Strip frontmatter from .md files if no meta info present
+		if (!hasMeta && path.extname(includePath) === '.md' && stripFrontmatter) {
+			const lineCount = content.split('\n').length
+			content = matter(content).content
+			sourceLines[0] += lineCount - content.split('\n').length
 		}
+
+		includes.push(includePath)
+
+		// Recursively process includes in the content, relative to the included file
+		const processedContent = processIncludes({
+			srcDir,
+			content,
+			filePath: includePath,
+			includes,
+			unresolved,
+			missing,
+			stripFrontmatter,
+			aliases,
+			provenance,
+			maxDepth,
+			parents: [...parents, includedPart],
+		})
+
+		return withProvenance(processedContent, includePath, sourceLines, { srcDir, provenance })
 	})
 }
 
@@ -231,27 +367,29 @@ function processSnippets({
 	content,
 	filePath,
 	includes,
+	unresolved,
+	missing,
+	aliases,
+	provenance,
 }: Omit<ProcessingOptions, 'stripFrontmatter'>): string {
 	return content.replace(snippetRE, (m: string, rawPath: string) => {
 		if (!rawPath.length) return m
 
-		// Handle @ prefix first, then parse the rest
 		const cleanPath = rawPath.trim()
-		const atPresent = cleanPath.startsWith('@')
-		const pathToParse = atPresent ? cleanPath.slice(1) : cleanPath
-
-		const { filepath, extension, region, lines, lang, attrs, title } = rawPathToToken(pathToParse)
+		const { filepath, extension, region, lines, lang, attrs, title } = rawPathToToken(cleanPath)
 
 		try {
-			const snippetPath = atPresent
-				? path.join(srcDir, filepath)
-				: path.resolve(path.dirname(filePath), filepath)
+			const snippetPath =
+				resolveAliasedPath(filepath, srcDir, aliases) ?? path.resolve(path.dirname(filePath), filepath)
 
 			if (!fs.existsSync(snippetPath)) {
+				missing?.push(snippetPath)
 				throw new Error(`Snippet file not found: ${snippetPath}`)
 			}
 
 			let content = fs.readFileSync(snippetPath, 'utf-8').replace(/\r\n/g, '\n')
+			// The first and the last included line of the file
+			let sourceLines: [number, number] = [1, countLines(content)]
 
 			// Handle region selection
 			if (region) {
@@ -260,12 +398,15 @@ function processSnippets({
 				const regionData = findRegion(contentLines, regionName)
 
 				if (regionData) {
+					sourceLines = [regionData.start + 1, regionData.end]
 					content = dedent(
 						contentLines
 							.slice(regionData.start, regionData.end)
 							.filter((l) => !(regionData.re.start.test(l) || regionData.re.end.test(l)))
 							.join('\n'),
 					)
+				} else {
+					unresolved.push(`${filepath}${region}`)
 				}
 			}
 
@@ -275,11 +416,15 @@ function processSnippets({
 			const info =
 				`${lang || extension}${lines && `{${lines}}`}${title && `[${title}]`}${attrs && ` ${attrs}`}`.trim()
 
-			return `\`\`\`${info}\n${content}\n\`\`\``
+			return withProvenance(`\`\`\`${info}\n${content}\n\`\`\``, snippetPath, sourceLines, {
+				srcDir,
+				provenance,
+			})
 		} catch (_error) {
 			const errorMsg = `Snippet file not found: ${rawPath}`
 
 			log.warn(`[remark-include] ${errorMsg}`)
+			unresolved.push(cleanPath)
 
 			return m
 		}
@@ -289,55 +434,116 @@ function processSnippets({
 /**
  * Remark plugin for markdown file inclusion and code snippets (VitePress-style)
  */
-function remarkInclude({ srcDir, stripFrontmatter }: IncludeOptions) {
+function remarkInclude({ srcDir, stripFrontmatter, aliases, provenance, maxDepth }: IncludeOptions) {
 	return () =>
 		(tree: Root, file: VFile): void => {
 			const includes: string[] = []
+			const unresolved: string[] = []
+			const missing: string[] = []
+
+			// Process HTML nodes (where comments live)
+			visit(tree, 'html', (node, index, parent) => {
+				if (!parent || typeof index !== 'number' || !includesRE.test(node.value)) return
+
+				includesRE.lastIndex = 0
+				const processedValue = processIncludes({
+					srcDir,
+					content: node.value,
+					filePath: file.path,
+					includes,
+					unresolved,
+					missing,
+					stripFrontmatter,
+					aliases,
+					provenance,
+					maxDepth,
+				})
+
+				if (processedValue === node.value) return
+
+				const nodes = fromMarkdown(processedValue).children
+				parent.children.splice(index, 1, ...nodes)
+
+				// The includes are processed recursively, the snippets of the included content are processed below
+				return index + nodes.length
+			})
 
-			visit(tree, (node, index, parent) => {
-				if (!parent || typeof index !== 'number') return
-
-				// Process HTML nodes (where comments live)
-				if (node.type === 'html' && includesRE.test(node.value)) {
-					includesRE.lastIndex = 0
-					const processedValue = processIncludes({
-						srcDir,
-						content: node.value,
-						filePath: file.path,
-						includes,
-						stripFrontmatter,
-					})
-
-					if (processedValue !== node.value) {
-						parent.children.splice(index, 1, ...fromMarkdown(processedValue).children)
-					}
+			// Parse snippets that are the only content of their paragraph, so that they become code blocks
+			visit(tree, 'paragraph', (node, index, parent) => {
+				const [text] = node.children
+				if (!parent || typeof index !== 'number' || node.children.length !== 1 || text?.type !== 'text') {
+					return
 				}
 
-				// Process text nodes for snippets
-				if (node.type === 'text' && snippetRE.test(node.value)) {
-					snippetRE.lastIndex = 0
-					const processedValue = processSnippets({
-						srcDir,
-						content: node.value,
-						filePath: file.path,
-						includes,
-					})
-
-					if (processedValue !== node.value) {
-						// Replace the text node with a code block
-						const newNode: Html = {
-							// raw paste
-							type: 'html',
-							value: processedValue,
-						}
-						parent.children[index] = newNode
+				const processedValue = processSnippets({
+					srcDir,
+					content: text.value,
+					filePath: file.path,
+					includes,
+					unresolved,
+					missing,
+					aliases,
+					provenance,
+				})
+
+				if (processedValue !== text.value) {
+					const nodes = fromMarkdown(processedValue).children
+					parent.children.splice(index, 1, ...nodes)
+					return [SKIP, index + nodes.length]
+				}
+
+				return SKIP
+			})
+
+			// Process text nodes for snippets, the ones that are a whole paragraph are already processed
+			visit(tree, 'text', (node, index, parent) => {
+				if (
+					!parent ||
+					typeof index !== 'number' ||
+					(parent.type === 'paragraph' && parent.children.length === 1)
+				) {
+					return
+				}
+				if (!snippetRE.test(node.value)) return
+
+				snippetRE.lastIndex = 0
+				const processedValue = processSnippets({
+					srcDir,
+					content: node.value,
+					filePath: file.path,
+					includes,
+					unresolved,
+					missing,
+					aliases,
+					provenance,
+				})
+
+				if (processedValue !== node.value) {
+					// Replace the text node with a code block
+					const newNode: Html = {
+						// raw paste
+						type: 'html',
+						value: processedValue,
 					}
+					parent.children[index] = newNode
 				}
 			})
 
+			// Convert the markers of the included content to the configured format
+			if (provenance) {
+				visit(tree, 'html', (node) => {
+					const marker = parseProvenanceMarker(node.value)
+					if (marker) {
+						node.value = formatProvenanceMarker(marker, provenance)
+					}
+				})
+			}
+
 			// Attach includes to file for dependency tracking (like VitePress)
 			if (file.data) {
 				file.data['includes'] = includes
+				file.data['unresolvedIncludes'] = unresolved
+				file.data['missingIncludes'] = missing
 			}
 		}
 }
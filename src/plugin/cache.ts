@@ -0,0 +1,248 @@
+import { createHash } from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import matter from 'gray-matter'
+import { name as packageName, version as packageVersion } from '@/../package.json'
+import type { PreparedFile, ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+
+/** A cached prepared file. */
+interface CacheEntry {
+	/** Hash of the source file content. */
+	hash: string
+
+	/** Hashes of the included files at the time the file was prepared, `''` for the missing ones. */
+	dependencies: Record<string, string>
+
+	/** The included files that didn't exist, they invalidate the entry once they are created. */
+	missingIncludes?: string[]
+
+	/** The path of the prepared file relative to the output directory. */
+	path: string
+
+	/** The title of the prepared file. */
+	title: string
+
+	/** The processed markdown, including frontmatter. */
+	content: string
+
+	/** The includes that couldn't be resolved. */
+	unresolvedIncludes?: string[]
+
+	/** The internal links that don't lead to any page. */
+	brokenLinks?: string[]
+}
+
+/** The cache file stored on disk. */
+interface CacheManifest {
+	/** Hash of the plugin version, settings and everything else that affects the output. */
+	settingsHash: string
+
+	/** Cached prepared files by the path of their source file. */
+	entries: Record<string, CacheEntry>
+}
+
+/** Persistent cache of prepared files, shared between builds. */
+export interface PreparedFilesCache {
+	/** The path of the cache file. */
+	file: string
+
+	/** Hash of the plugin version, settings and everything else that affects the output. */
+	settingsHash: string
+
+	/** Entries loaded from the previous build. */
+	previousEntries: Record<string, CacheEntry>
+
+	/** Entries of the current build, only these are saved. */
+	entries: Record<string, CacheEntry>
+
+	/** How many prepared files were reused from the previous build. */
+	hits: number
+}
+
+/**
+ * Computes a SHA-256 hash of the given string.
+ *
+ * @param content - The string to hash.
+ * @returns The hash as a hex string.
+ */
+export const hashContent = (content: string): string => createHash('sha256').update(content).digest('hex')
+
+/**
+ * Resolves the directory where the cache is stored.
+ *
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The absolute path to the cache directory.
+ */
+export function resolveCacheDir(settings: ResolvedLlmstxtSettings, config: VitePressConfig): string {
+	return path.resolve(
+		config.root ?? '.',
+		settings.cacheDir ?? path.join(config.cacheDir ?? 'node_modules/.vite', packageName),
+	)
+}
+
+/**
+ * Computes a hash of everything besides the page content that affects prepared files.
+ *
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param imageMap - Map of the source paths of the images to the hashed file paths.
+ * @returns The hash as a hex string.
+ */
+export function hashSettings(
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	imageMap: Map<string, string>,
+): string {
+	return hashContent(
+		JSON.stringify(
+			[
+				packageVersion,
+				settings,
+				config.vitepress?.userConfig?.rewrites,
+				// Links to other pages are rewritten, so adding or removing a page affects all of them
+				config.vitepress?.pages,
+				config.base,
+				config.resolve?.alias,
+				Array.from(imageMap.entries()),
+			],
+			// Functions (component and container renderers, the sidebar, etc.) and regexes (aliases)
+			// would otherwise be dropped or serialized as `{}`
+			(_, value: unknown) => (typeof value === 'function' || value instanceof RegExp ? String(value) : value),
+		),
+	)
+}
+
+/**
+ * Loads the cache of prepared files from the previous build.
+ *
+ * The cache is discarded if it's missing, unreadable or was created with other settings.
+ *
+ * @param cacheDir - The directory where the cache is stored.
+ * @param settingsHash - The hash of the current settings, see {@link hashSettings}.
+ * @returns The loaded cache.
+ */
+export async function loadPreparedFilesCache(
+	cacheDir: string,
+	settingsHash: string,
+): Promise<PreparedFilesCache> {
+	const file = path.join(cacheDir, 'prepared-files.json')
+	let previousEntries: Record<string, CacheEntry> = {}
+
+	try {
+		const manifest: CacheManifest = JSON.parse(await fs.readFile(file, 'utf-8'))
+		if (manifest.settingsHash === settingsHash) {
+			previousEntries = manifest.entries
+		}
+	} catch {
+		// There is no usable cache yet
+	}
+
+	return { file, settingsHash, previousEntries, entries: {}, hits: 0 }
+}
+
+/**
+ * Hashes the current content of the included files.
+ *
+ * @param includes - The absolute paths of the included files.
+ * @returns Hashes of the included files, `''` for the ones that can't be read.
+ */
+async function hashDependencies(includes: string[]): Promise<Record<string, string>> {
+	const hashes = await Promise.all(
+		includes.map(async (include) => {
+			try {
+				return [include, hashContent(await fs.readFile(include, 'utf-8'))] as const
+			} catch {
+				return [include, ''] as const
+			}
+		}),
+	)
+
+	return Object.fromEntries(hashes)
+}
+
+/**
+ * Returns the cached prepared file if neither the file nor any of its includes have changed,
+ * and none of its missing includes have been created.
+ *
+ * @param cache - The cache of prepared files.
+ * @param sourceFile - The path of the source file.
+ * @param content - The current content of the source file.
+ * @returns The cached prepared file, or `undefined` if it has to be prepared again.
+ */
+export async function getCachedPreparedFile(
+	cache: PreparedFilesCache,
+	sourceFile: string,
+	content: string,
+): Promise<PreparedFile | undefined> {
+	const entry = cache.previousEntries[sourceFile]
+
+	if (!entry || entry.hash !== hashContent(content)) {
+		return undefined
+	}
+
+	const dependencyPaths = Object.keys(entry.dependencies)
+	const dependencies = await hashDependencies(dependencyPaths)
+	if (dependencyPaths.some((dependency) => dependencies[dependency] !== entry.dependencies[dependency])) {
+		return undefined
+	}
+
+	const missingIncludes = entry.missingIncludes ?? []
+	const includes = dependencyPaths.filter((dependency) => !missingIncludes.includes(dependency))
+
+	cache.entries[sourceFile] = entry
+	cache.hits++
+
+	return {
+		path: entry.path,
+		title: entry.title,
+		file: matter(entry.content),
+		includes,
+		unresolvedIncludes: entry.unresolvedIncludes ?? [],
+		missingIncludes,
+		brokenLinks: entry.brokenLinks ?? [],
+	}
+}
+
+/**
+ * Stores a prepared file in the cache.
+ *
+ * @param cache - The cache of prepared files.
+ * @param sourceFile - The path of the source file.
+ * @param content - The content of the source file.
+ * @param preparedFile - The prepared file.
+ * @param processedMarkdown - The processed markdown, including frontmatter.
+ */
+export async function setCachedPreparedFile(
+	cache: PreparedFilesCache,
+	sourceFile: string,
+	content: string,
+	preparedFile: PreparedFile,
+	processedMarkdown: string,
+): Promise<void> {
+	cache.entries[sourceFile] = {
+		hash: hashContent(content),
+		dependencies: await hashDependencies([
+			...(preparedFile.includes ?? []),
+			...(preparedFile.missingIncludes ?? []),
+		]),
+		path: preparedFile.path,
+		title: preparedFile.title,
+		content: processedMarkdown,
+		unresolvedIncludes: preparedFile.unresolvedIncludes ?? [],
+		missingIncludes: preparedFile.missingIncludes ?? [],
+		brokenLinks: preparedFile.brokenLinks ?? [],
+	}
+}
+
+/**
+ * Writes the entries of the current build to disk, dropping the ones of removed files.
+ *
+ * @param cache - The cache of prepared files.
+ */
+export async function savePreparedFilesCache(cache: PreparedFilesCache): Promise<void> {
+	const manifest: CacheManifest = { settingsHash: cache.settingsHash, entries: cache.entries }
+
+	await fs.mkdir(path.dirname(cache.file), { recursive: true })
+	await fs.writeFile(cache.file, JSON.stringify(manifest), 'utf-8')
+}
@@ -1,27 +1,299 @@
-import fs from 'node:fs/promises'
 import path from 'node:path'
 import pc from 'picocolors'
 import type { ViteDevServer } from 'vite'
-import type { VitePressConfig } from '@/internal-types'
-import { stripExt } from '@/utils/file-utils'
+import { generateLLMFriendlyPage } from '@/generator/page-generator'
+import type { PreparedFile, ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+import {
+	getOutputDirectories,
+	prepareFile,
+	renderLLMsFullTxtFiles,
+	renderLLMsTxt,
+	resolvePreparedFilePath,
+	resolveSidebar,
+	sortPreparedFiles,
+} from '@/plugin/pipeline'
+import { transformToPosixPath } from '@/utils/file-utils'
 import log from '@/utils/logger'
+import { getLLMsPageOptions, isExcludedFromLLMs } from '@/utils/markdown'
+
+/** In-memory state of the LLM docs served by the dev server. */
+interface DevServerState {
+	/** Prepared files by the absolute path of their source file. */
+	preparedFiles: Map<string, Promise<PreparedFile>>
+
+	/** Source files depending on each included file (`<!--@include:-->` or `<<<` snippet). */
+	dependents: Map<string, Set<string>>
+}
+
+/**
+ * Records the files included by a source file, replacing the previously recorded ones.
+ *
+ * @param state - The dev server state.
+ * @param file - The absolute path of the source file.
+ * @param includes - The absolute paths of the included files, including the missing ones.
+ */
+function trackDependencies(state: DevServerState, file: string, includes: string[]): void {
+	for (const dependents of state.dependents.values()) {
+		dependents.delete(file)
+	}
+
+	for (const include of includes) {
+		const dependency = path.resolve(include)
+		const dependents = state.dependents.get(dependency) ?? new Set()
+		dependents.add(file)
+		state.dependents.set(dependency, dependents)
+	}
+}
+
+/**
+ * Returns the prepared version of a source file, running the remark pipeline only if it's not cached.
+ *
+ * @param state - The dev server state.
+ * @param file - The path of the source file.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The prepared file.
+ */
+function getPreparedFile(
+	state: DevServerState,
+	file: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): Promise<PreparedFile> {
+	const key = path.resolve(file)
+	let preparedFile = state.preparedFiles.get(key)
+
+	if (!preparedFile) {
+		preparedFile = prepareFile(file, settings, config).then(
+			(result) => {
+				// Missing includes are tracked too, so that the page is regenerated once they're created
+				trackDependencies(state, key, [...(result.includes ?? []), ...(result.missingIncludes ?? [])])
+				return result
+			},
+			(error) => {
+				// Don't cache failures, the next request will try again
+				state.preparedFiles.delete(key)
+				throw error
+			},
+		)
+		state.preparedFiles.set(key, preparedFile)
+	}
+
+	return preparedFile
+}
+
+/**
+ * Invalidates the pages affected by a changed or created file and prepares them again.
+ *
+ * @param state - The dev server state.
+ * @param changedFile - The absolute path of the changed file.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param mdFiles - The markdown files collected by the `transform` hook.
+ */
+async function handleFileChange(
+	state: DevServerState,
+	changedFile: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	mdFiles: Set<string>,
+): Promise<void> {
+	const key = path.resolve(changedFile)
+	const affectedFiles = new Set(state.dependents.get(key))
+
+	if (state.preparedFiles.has(key)) {
+		affectedFiles.add(key)
+	}
+
+	if (affectedFiles.size === 0) {
+		return
+	}
+
+	for (const file of affectedFiles) {
+		state.preparedFiles.delete(file)
+	}
+
+	// Regenerate affected pages right away, so `llms.txt`,
+	// `llms-full.txt` and the pages are up to date on the next request
+	const sourceFiles = Array.from(mdFiles).filter((file) => affectedFiles.has(path.resolve(file)))
+	await Promise.all(sourceFiles.map((file) => getPreparedFile(state, file, settings, config)))
+
+	log.info(
+		`Regenerated LLM docs for ${pc.bold(sourceFiles.length.toString())} page(s) after a change in ${pc.cyan(path.relative(settings.workDir, key))}`,
+	)
+}
+
+/**
+ * Forgets about a removed file.
+ *
+ * @param state - The dev server state.
+ * @param removedFile - The absolute path of the removed file.
+ * @param mdFiles - The markdown files collected by the `transform` hook.
+ */
+function handleFileRemoval(state: DevServerState, removedFile: string, mdFiles: Set<string>): void {
+	const key = path.resolve(removedFile)
+
+	for (const file of mdFiles) {
+		if (path.resolve(file) === key) {
+			mdFiles.delete(file)
+		}
+	}
+
+	state.preparedFiles.delete(key)
+	trackDependencies(state, key, [])
+}
 
 /**
- * Configures the development server to handle `llms.txt` and markdown files for LLMs.
+ * Resolves the requested output path relative to the site root.
+ *
+ * @param url - The request URL.
+ * @param base - The base URL path from VitePress config.
+ * @returns The output path (e.g. `guide/llms.txt`), or `undefined` if the request is not for LLM docs
+ * or the URL is malformed.
  */
-export async function configureDevServer(server: ViteDevServer, config: VitePressConfig): Promise<void> {
+function resolveRequestedPath(url: string | undefined, base = '/'): string | undefined {
+	// Page modules requested by VitePress itself always have a query string
+	if (!url || !(url.endsWith('.md') || url.endsWith('.txt'))) {
+		return undefined
+	}
+
+	let pathname: string
+	try {
+		pathname = decodeURIComponent(url)
+	} catch {
+		// Malformed URLs like `/%E0.md` are left to the other middlewares
+		return undefined
+	}
+
+	const normalizedBase = base.endsWith('/') ? base : `${base}/`
+	if (normalizedBase !== '/' && pathname.startsWith(normalizedBase)) {
+		pathname = pathname.slice(normalizedBase.length - 1)
+	}
+
+	return pathname.replace(/^\/+/, '')
+}
+
+/**
+ * Generates the content of the requested output in memory, using the same pipeline as the build.
+ *
+ * @param state - The dev server state.
+ * @param requestedPath - The output path relative to the site root.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param mdFiles - The markdown files collected by the `transform` hook.
+ * @returns The generated content, or `undefined` if there is no such output.
+ */
+async function generateOutput(
+	state: DevServerState,
+	requestedPath: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	mdFiles: Set<string>,
+): Promise<string | undefined> {
+	const mdFilesList = Array.from(mdFiles)
+	const fileName = path.posix.basename(requestedPath)
+
+	const isLLMsTxt = fileName === 'llms.txt'
+	// `llms-full.txt`, one of its parts if it's split by `maxTokens` or a sidebar section bundle
+	const isLLMsFullTxt = /^llms-full(-.+)?\.txt$/.test(fileName)
+
+	if (isLLMsTxt || isLLMsFullTxt) {
+		if (isLLMsTxt ? !settings.generateLLMsTxt : !settings.generateLLMsFullTxt) {
+			return undefined
+		}
+
+		const directoryFilter = path.normalize(path.posix.dirname(requestedPath))
+		// Only serve the files that would be generated by the build
+		if (!getOutputDirectories(mdFilesList, settings, config).includes(directoryFilter)) {
+			return undefined
+		}
+
+		// Resolve the sidebar before preparing files, just like in the build
+		const resolvedSidebar = await resolveSidebar(settings, config)
+		const preparedFiles = sortPreparedFiles(
+			(await Promise.all(mdFilesList.map((file) => getPreparedFile(state, file, settings, config)))).filter(
+				(preparedFile) => !isExcludedFromLLMs(preparedFile.file),
+			),
+		)
+
+		if (isLLMsTxt) {
+			return renderLLMsTxt(preparedFiles, directoryFilter, settings, config, resolvedSidebar)
+		}
+
+		const llmsFullTxtFiles = await renderLLMsFullTxtFiles(
+			preparedFiles,
+			directoryFilter,
+			settings,
+			config,
+			resolvedSidebar,
+		)
+		return llmsFullTxtFiles.get(path.normalize(requestedPath))
+	}
+
+	if (fileName.endsWith('.md') && settings.generateLLMFriendlyDocsForEachPage) {
+		const sourceFile = mdFilesList.find(
+			(file) => transformToPosixPath(resolvePreparedFilePath(file, settings, config)) === requestedPath,
+		)
+
+		if (sourceFile) {
+			const preparedFile = await getPreparedFile(state, sourceFile, settings, config)
+
+			if (!isExcludedFromLLMs(preparedFile.file) && getLLMsPageOptions(preparedFile.file).page !== false) {
+				return generateLLMFriendlyPage(preparedFile, settings.domain, config.base, settings.images?.pages)
+			}
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Configures the development server to generate `llms.txt` and markdown files for LLMs on request.
+ *
+ * Prepared pages are kept in memory and regenerated whenever the page itself
+ * or any file it includes changes.
+ */
+export async function configureDevServer(
+	server: ViteDevServer,
+	config: VitePressConfig,
+	settings: ResolvedLlmstxtSettings,
+	mdFiles: Set<string>,
+): Promise<void> {
+	const state: DevServerState = {
+		preparedFiles: new Map(),
+		dependents: new Map(),
+	}
+
+	/** Regenerates the pages affected by a changed or created file. */
+	const onFileChange = async (file: string) => {
+		try {
+			await handleFileChange(state, file, settings, config, mdFiles)
+		} catch (error) {
+			log.warn(`Failed to regenerate LLM docs for ${pc.cyan(file)}: ${(error as Error).message}`)
+		}
+	}
+
+	server.watcher.on('change', onFileChange)
+	// The pages including a file that didn't exist yet
+	server.watcher.on('add', onFileChange)
+
+	server.watcher.on('unlink', (file) => handleFileRemoval(state, file, mdFiles))
+
 	log.info('Dev server configured for serving plain text docs for LLMs')
 	server.middlewares.use(async (req, res, next) => {
-		if (req.url?.endsWith('.md') || req.url?.endsWith('.txt')) {
+		const requestedPath = resolveRequestedPath(req.url, config?.base)
+
+		if (requestedPath) {
 			try {
-				// Try to read and serve the markdown file
-				const filePath = path.resolve(config.vitepress?.outDir ?? 'dist', `${stripExt(req.url)}.md`)
-				const content = await fs.readFile(filePath, 'utf-8')
-				res.setHeader('Content-Type', 'text/plain; charset=utf-8')
-				res.end(content)
-				return
-			} catch (_error) {
-				log.warn(`Failed to return ${pc.cyan(req.url)}: File not found`)
+				const content = await generateOutput(state, requestedPath, settings, config, mdFiles)
+
+				if (content !== undefined) {
+					res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+					res.end(content)
+					return
+				}
+			} catch (error) {
+				log.warn(`Failed to generate ${pc.cyan(req.url)}: ${(error as Error).message}`)
 			}
 		}
 
@@ -1,30 +1,67 @@
 import fs from 'node:fs/promises'
 import path from 'node:path'
-import matter, { type GrayMatterFile, type Input } from 'gray-matter'
+import matter from 'gray-matter'
 import { millify } from 'millify'
-import { minimatch } from 'minimatch'
 import pc from 'picocolors'
-import { remark } from 'remark'
-import remarkFrontmatter from 'remark-frontmatter'
 import { approximateTokenSize } from 'tokenx'
-import { remove } from 'unist-util-remove'
 // @ts-expect-error Module '"vite"' declares 'OutputBundle' locally, but it is not exported. ts(2459)
 import type { OutputBundle } from 'vite'
-import { defaultLLMsTxtTemplate, fullTagRegex } from '@/constants'
-import { generateLLMsFullTxt } from '@/generator/llms-full-txt'
-import { generateLLMsTxt } from '@/generator/llms-txt'
-import { generateLLMFriendlyPages } from '@/generator/page-generator'
-import type { PreparedFile, VitePressConfig } from '@/internal-types'
-import remarkPlease from '@/markdown/remark-plugins/remark-please'
-import remarkReplaceImageUrls from '@/markdown/remark-plugins/replace-image-urls'
-import remarkInclude from '@/markdown/remark-plugins/snippets'
-import type { CustomTemplateVariables, LlmstxtSettings } from '@/types.d'
-import { getDirectoriesAtDepths } from '@/utils/file-utils'
-import { getHumanReadableSizeOf } from '@/utils/helpers'
+import { fullTagRegex } from '@/constants'
+import type { ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+import { findLocale, resolveLocales } from '@/plugin/locales'
+import {
+	collectImageMap,
+	generateLLMDocs,
+	isMainPageFile,
+	isProcessableFile,
+	prepareFiles,
+	resolveSidebar,
+} from '@/plugin/pipeline'
+import type { LLMHintPage } from '@/types'
+import { transformToPosixPath } from '@/utils/file-utils'
 import log from '@/utils/logger'
-import { extractTitle } from '@/utils/markdown'
+import { getLLMsPageOptions, isExcludedFromLLMs } from '@/utils/markdown'
 import { expandTemplate } from '@/utils/template-utils'
-import { resolveOutputFilePath, resolvePageURL, resolveSourceFilePath } from '@/utils/vitepress-rewrites'
+import { resolveOutputFilePath, resolvePageURL } from '@/utils/vitepress-rewrites'
+
+/**
+ * Resolves the template of the LLM hint for a page.
+ *
+ * @param settings - The plugin settings.
+ * @param page - The page the hint is inserted on.
+ * @returns The template, or `undefined` if no hint should be inserted.
+ */
+function resolveLLMHintTemplate(settings: ResolvedLlmstxtSettings, page: LLMHintPage): string | undefined {
+	const llmHint =
+		settings.llmHint && typeof settings.llmHint === 'object'
+			? settings.llmHint[page.locale]
+			: settings.llmHint
+
+	if (llmHint !== undefined) {
+		return typeof llmHint === 'function' ? llmHint(page) : llmHint
+	}
+
+	if (page.isMainPage) {
+		const notices = []
+
+		if (settings.generateLLMsTxt) {
+			notices.push('{llmsTxt} for optimized Markdown documentation')
+		}
+
+		if (settings.generateLLMsFullTxt) {
+			notices.push('{llmsFullTxt} for full documentation bundle')
+		}
+
+		return notices.length > 0 ? `Are you an LLM? View ${notices.join(', or ')}` : undefined
+	}
+
+	// Regular page
+	if (settings.generateLLMFriendlyDocsForEachPage) {
+		return 'Are you an LLM? You can read better optimized documentation at {url} for this page in Markdown format (~{tokens} tokens)'
+	}
+
+	return undefined
+}
 
 /**
  * Processes each Markdown file.
@@ -32,43 +69,25 @@ import { resolveOutputFilePath, resolvePageURL, resolveSourceFilePath } from '@/
 export async function transform(
 	content: string,
 	id: string,
-	settings: LlmstxtSettings & { ignoreFiles: string[]; workDir: string },
+	settings: ResolvedLlmstxtSettings,
 	mdFiles: Set<string>,
 	config: VitePressConfig,
 	// biome-ignore lint/suspicious/noExplicitAny: TODO: Fix type
 ): Promise<any> {
 	const orig = content
 
-	if (!id.endsWith('.md') || !path.resolve(id).startsWith(settings.workDir)) {
+	if (!isProcessableFile(id, settings, config)) {
 		return null
 	}
 
-	// Check if it's the main page (index.md) before ignore check
 	const resolvedOutFilePath = resolveOutputFilePath(
 		id,
 		settings.workDir,
 		config.vitepress.userConfig?.rewrites,
 	)
-	const isMainPage = path.relative(settings.workDir, resolvedOutFilePath) === 'index.md'
-
-	// Apply ignore rules, but skip them for main page
-	if (settings.ignoreFiles?.length) {
-		const shouldIgnore = await Promise.all(
-			settings.ignoreFiles.map(async (pattern) => {
-				if (typeof pattern === 'string') {
-					return minimatch(path.relative(settings.workDir, id), pattern)
-				}
-				return false
-			}),
-		)
+	const isMainPage = isMainPageFile(id, settings, config)
 
-		// If file should be ignored AND it's not the main page, skip processing
-		if (shouldIgnore.some((result) => result === true) && !isMainPage) {
-			return null
-		}
-	}
-
-	let modifiedContent: string | GrayMatterFile<Input> = content
+	let modifiedContent = content
 		// strip content between <llm-only> and </llm-only>
 		.replace(fullTagRegex('llm-only', 'g'), '')
 		// remove <llm-exclude> tags, keep the content
@@ -80,42 +99,48 @@ export async function transform(
 	) {
 		// @ts-expect-error
 		matter.clearCache()
-		modifiedContent = matter(modifiedContent)
-
-		// Generate hint for LLMs
-		let llmHint = ''
+		const page = matter(modifiedContent)
+		const { content: pageContent, data: frontmatter } = page
 
-		const currentUrl = resolvePageURL(path.relative(settings.workDir, resolvedOutFilePath))
+		const pagePath = path.relative(settings.workDir, resolvedOutFilePath)
+		const currentUrl = resolvePageURL(pagePath)
 
 		const base = config.base || '/'
 		const basePath = base === '/' ? '' : base.replace(/\/$/, '')
 
-		if (isMainPage) {
-			const notices = []
-
-			if (settings.generateLLMsTxt) {
-				notices.push(`${basePath}/llms.txt for optimized Markdown documentation`)
-			}
+		const locale = findLocale(pagePath, resolveLocales(settings, config))
+		const localeBasePath = locale && locale.dir !== '.' ? `${basePath}/${locale.dir}` : basePath
+
+		// Generate hint for LLMs, unless there is no LLM-friendly version of the page
+		const template =
+			isExcludedFromLLMs(page) || (!isMainPage && getLLMsPageOptions(page).page === false)
+				? undefined
+				: resolveLLMHintTemplate(settings, {
+						path: transformToPosixPath(pagePath),
+						frontmatter,
+						isMainPage,
+						locale: locale?.key ?? 'root',
+					})
 
-			if (settings.generateLLMsFullTxt) {
-				notices.push(`${basePath}/llms-full.txt for full documentation bundle`)
-			}
+		const llmHint =
+			template &&
+			expandTemplate(template, {
+				url: `${basePath}/${currentUrl}`,
+				llmsTxt: `${localeBasePath}/llms.txt`,
+				llmsFullTxt: `${localeBasePath}/llms-full.txt`,
+				tokens: millify(
+					approximateTokenSize(
+						orig.replace(fullTagRegex('llm-exclude', 'g'), '').replace(fullTagRegex('llm-only', 'g'), '$1'),
+					),
+				),
+			})
 
-			if (notices.length > 0) {
-				llmHint = `Are you an LLM? View ${notices.join(', or ')}`
-			}
-		} else {
-			// Regular page
-			if (settings.generateLLMFriendlyDocsForEachPage) {
-				const mdUrl = `${basePath}/${currentUrl}`
-				// TODO: Add some useful metadata like tokens count or size in kilobytes
-				llmHint = `Are you an LLM? You can read better optimized documentation at ${mdUrl} for this page in Markdown format`
-			}
+		if (llmHint) {
+			modifiedContent = matter.stringify(
+				`<div style="display: none;" hidden="true" aria-hidden="true">${llmHint}</div>\n\n${pageContent}`,
+				frontmatter,
+			)
 		}
-
-		llmHint = `<div style="display: none;" hidden="true" aria-hidden="true">${llmHint}</div>\n\n`
-
-		modifiedContent = matter.stringify(llmHint + modifiedContent.content, modifiedContent.data)
 	}
 
 	// Add markdown file path to our collection
@@ -132,7 +157,7 @@ export async function transform(
  */
 export async function generateBundle(
 	bundle: OutputBundle,
-	settings: LlmstxtSettings & { ignoreFiles: string[]; workDir: string },
+	settings: ResolvedLlmstxtSettings,
 	config: VitePressConfig,
 	mdFiles: Set<string>,
 	isSsrBuild: boolean,
@@ -145,10 +170,7 @@ export async function generateBundle(
 
 	// resolve the sidebar option before reading `mdFiles`
 	// in order to process files from content loaders used in the sidebar function
-	const resolvedSidebar =
-		settings.sidebar instanceof Function
-			? await settings.sidebar(config?.vitepress?.userConfig?.themeConfig?.sidebar)
-			: settings.sidebar
+	const resolvedSidebar = await resolveSidebar(settings, config)
 
 	const outDir = config.vitepress?.outDir ?? 'dist'
 
@@ -173,199 +195,12 @@ export async function generateBundle(
 
 	log.info(`Processing ${pc.bold(fileCount.toString())} markdown files from ${pc.cyan(settings.workDir)}`)
 
-	const imageMap = new Map<string, string>()
-	if (bundle) {
-		for (const asset of Object.values(bundle)) {
-			if (
-				asset &&
-				typeof asset === 'object' &&
-				'type' in asset &&
-				asset.type === 'asset' &&
-				'fileName' in asset &&
-				typeof asset.fileName === 'string' &&
-				/(png|jpe?g|gif|svg|webp)$/i.test(path.extname(asset.fileName))
-			) {
-				// @ts-expect-error
-				const name = path.posix.basename(asset.name || asset.fileName)
-				imageMap.set(name, asset.fileName)
-			}
-		}
-	}
-
-	const preparedFiles: PreparedFile[] = await Promise.all(
-		mdFilesList.map(async (file) => {
-			const resolvedOutFilePath = path.relative(
-				settings.workDir,
-				resolveOutputFilePath(file, settings.workDir, config.vitepress.userConfig?.rewrites),
-			)
-
-			const content = await fs.readFile(file, 'utf-8')
-
-			const markdownProcessor = remark()
-				.use(remarkFrontmatter)
-				.use(remarkInclude({ srcDir: settings.workDir }))
-				.use(remarkPlease('unwrap', 'llm-only'))
-				.use(remarkPlease('remove', 'llm-exclude'))
-				.use(remarkReplaceImageUrls(imageMap))
-
-			if (settings.stripHTML) {
-				// Strip HTML tags
-				markdownProcessor.use(() => {
-					return (tree) => {
-						remove(tree, { type: 'html' })
-						return tree
-					}
-				})
-			}
-
-			const processedMarkdown = matter(
-				String(
-					await markdownProcessor.process({
-						cwd: settings.workDir,
-						path: file,
-						value: content,
-					}),
-				),
-			)
-
-			// Extract title from frontmatter or use the first heading
-			const title = extractTitle(processedMarkdown)?.trim() || 'Untitled'
-
-			const filePath =
-				path.basename(resolvedOutFilePath) === 'index.md' &&
-				// Suspicious.
-				path.dirname(resolvedOutFilePath) !== '.' &&
-				path.dirname(resolvedOutFilePath) !== ''
-					? `${path.dirname(resolvedOutFilePath)}.md`
-					: resolvedOutFilePath
-
-			return { path: filePath, title, file: processedMarkdown }
-		}),
+	const preparedFiles = await prepareFiles(
+		mdFilesList,
+		settings,
+		config,
+		collectImageMap(bundle, config.root),
 	)
 
-	// Sort files by title for better organization
-	preparedFiles.sort((a, b) => a.title.localeCompare(b.title))
-
-	const tasks: Promise<void>[] = []
-
-	if (settings.generateLLMsTxt) {
-		const templateVariables: CustomTemplateVariables = {
-			title: settings.title,
-			description: settings.description,
-			details: settings.details,
-			toc: settings.toc,
-			...settings.customTemplateVariables,
-		}
-
-		// Get directories at specified depths
-		const directories = getDirectoriesAtDepths(
-			mdFilesList,
-			settings.workDir,
-			settings.experimental?.depth ?? 1,
-		)
-
-		// Generate llms.txt for each directory at the specified depths
-		tasks.push(
-			...directories.map((directory) =>
-				(async () => {
-					const isRoot = directory.relativePath === '.'
-					const directoryFilter = isRoot ? '.' : directory.relativePath
-
-					// Determine output path
-					const outputFileName = isRoot ? 'llms.txt' : path.join(directory.relativePath, 'llms.txt')
-					const llmsTxtPath = path.resolve(outDir, outputFileName)
-
-					// Create directory if needed
-					await fs.mkdir(path.dirname(llmsTxtPath), { recursive: true })
-
-					log.info(`Generating ${pc.cyan(outputFileName)}...`)
-
-					const llmsTxt = await generateLLMsTxt(preparedFiles, {
-						indexMd: path.resolve(
-							settings.workDir,
-							resolveSourceFilePath('index.md', settings.workDir, config.vitepress.userConfig?.rewrites),
-						),
-						outDir: settings.workDir,
-						LLMsTxtTemplate: settings.customLLMsTxtTemplate || defaultLLMsTxtTemplate,
-						templateVariables,
-						vitepressConfig: config?.vitepress?.userConfig,
-						domain: settings.domain,
-						sidebar: resolvedSidebar,
-						linksExtension: !settings.generateLLMFriendlyDocsForEachPage ? '.html' : undefined,
-						directoryFilter,
-					})
-
-					await fs.writeFile(llmsTxtPath, llmsTxt, 'utf-8')
-
-					log.success(
-						expandTemplate(
-							'Generated {file} (~{tokens} tokens, {size}) with {fileCount} documentation links',
-							{
-								file: pc.cyan(outputFileName),
-								tokens: pc.bold(millify(approximateTokenSize(llmsTxt))),
-								size: pc.bold(getHumanReadableSizeOf(llmsTxt)),
-								fileCount: pc.bold(fileCount.toString()),
-							},
-						),
-					)
-				})(),
-			),
-		)
-	}
-
-	// Generate llms-full.txt - all content in one file
-	if (settings.generateLLMsFullTxt) {
-		// Get directories at specified depths for llms-full.txt as well
-		const directories = getDirectoriesAtDepths(
-			mdFilesList,
-			settings.workDir,
-			settings.experimental?.depth ?? 1,
-		)
-
-		// Generate llms-full.txt for each directory at the specified depths
-		tasks.push(
-			...directories.map((directory) =>
-				(async () => {
-					const isRoot = directory.relativePath === '.'
-					const directoryFilter = isRoot ? '.' : directory.relativePath
-
-					// Determine output path
-					const outputFileName = isRoot ? 'llms-full.txt' : path.join(directory.relativePath, 'llms-full.txt')
-					const llmsFullTxtPath = path.resolve(outDir, outputFileName)
-
-					// Create directory if needed
-					await fs.mkdir(path.dirname(llmsFullTxtPath), { recursive: true })
-
-					log.info(`Generating full documentation bundle (${pc.cyan(outputFileName)})...`)
-
-					const llmsFullTxt = await generateLLMsFullTxt(preparedFiles, {
-						domain: settings.domain,
-						linksExtension: !settings.generateLLMFriendlyDocsForEachPage ? '.html' : undefined,
-						base: config.base,
-						directoryFilter,
-					})
-
-					// Write content to llms-full.txt
-					await fs.writeFile(llmsFullTxtPath, llmsFullTxt, 'utf-8')
-
-					log.success(
-						expandTemplate('Generated {file} (~{tokens} tokens, {size}) with {fileCount} markdown files', {
-							file: pc.cyan(outputFileName),
-							tokens: pc.bold(millify(approximateTokenSize(llmsFullTxt))),
-							size: pc.bold(getHumanReadableSizeOf(llmsFullTxt)),
-							fileCount: pc.bold(fileCount.toString()),
-						}),
-					)
-				})(),
-			),
-		)
-	}
-
-	if (settings.generateLLMFriendlyDocsForEachPage) {
-		tasks.push(generateLLMFriendlyPages(preparedFiles, outDir, settings.domain, config.base))
-	}
-
-	if (tasks.length) {
-		await Promise.all(tasks)
-	}
+	await generateLLMDocs(preparedFiles, mdFilesList, settings, config, resolvedSidebar, outDir)
 }
@@ -0,0 +1,120 @@
+import path from 'node:path'
+import type { DefaultTheme, UserConfig } from 'vitepress'
+import type { PreparedFile, ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+import { transformToPosixPath } from '@/utils/file-utils'
+
+/** A VitePress locale the LLM docs are generated for. */
+export interface ResolvedLocale {
+	/**
+	 * The key of the locale in the VitePress `locales` config.
+	 *
+	 * @example 'fr'
+	 */
+	key: string
+
+	// spell-checker:disable
+	/**
+	 * The label of the locale.
+	 *
+	 * @example 'Français'
+	 */
+	label: string
+	// spell-checker:enable
+
+	/** The directory of the locale relative to `workDir`, `.` for the root locale. */
+	dir: string
+
+	/** The sidebar from the `themeConfig` of the locale, if it has its own one. */
+	sidebar: DefaultTheme.Sidebar | undefined
+
+	/** The VitePress config with the locale-specific options (`title`, `description`, `themeConfig`, etc.) applied. */
+	userConfig: UserConfig
+}
+
+/**
+ * Resolves the locales from the VitePress `locales` config.
+ *
+ * Locales are only used if the site has more than one of them and {@link LlmstxtSettings.workDir | `workDir`}
+ * isn't narrowed down to one of the locale directories.
+ *
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The locales, the root one first, or an empty array if the site isn't multilingual.
+ */
+export function resolveLocales(settings: ResolvedLlmstxtSettings, config: VitePressConfig): ResolvedLocale[] {
+	const userConfig = config.vitepress?.userConfig ?? {}
+	const locales = config.vitepress?.site?.locales ?? userConfig.locales ?? {}
+
+	if (
+		settings.locales === false ||
+		path.resolve(config.vitepress.srcDir) !== settings.workDir ||
+		!Object.keys(locales).some((key) => key !== 'root')
+	) {
+		return []
+	}
+
+	const resolvedLocales = Object.entries(locales).map(
+		([key, { label, link, themeConfig, ...localeConfig }]): ResolvedLocale => ({
+			key,
+			label,
+			dir: key === 'root' ? '.' : key.replace(/^\/+|\/+$/g, ''),
+			sidebar: themeConfig?.sidebar,
+			userConfig: {
+				...userConfig,
+				...localeConfig,
+				themeConfig: { ...userConfig.themeConfig, ...themeConfig },
+			},
+		}),
+	)
+
+	if (!locales['root']) {
+		resolvedLocales.unshift({
+			key: 'root',
+			label: userConfig.lang ?? 'root',
+			dir: '.',
+			sidebar: undefined,
+			userConfig,
+		})
+	}
+
+	return resolvedLocales.sort((a, b) => Number(b.key === 'root') - Number(a.key === 'root'))
+}
+
+/**
+ * Finds the locale a path belongs to.
+ *
+ * The home page of a locale belongs to it, both as `fr/index.md` and as the prepared `fr.md`.
+ *
+ * @param filePath - A path relative to `workDir`, e.g. `fr/guide.md` or `fr`.
+ * @param locales - The resolved locales.
+ * @returns The locale with the longest matching directory, or `undefined` if there are no locales.
+ */
+export function findLocale(filePath: string, locales: ResolvedLocale[]): ResolvedLocale | undefined {
+	const posixPath = transformToPosixPath(filePath)
+
+	return locales
+		.filter(
+			(locale) =>
+				locale.dir === '.' ||
+				posixPath === locale.dir ||
+				posixPath === `${locale.dir}.md` ||
+				posixPath.startsWith(`${locale.dir}/`),
+		)
+		.sort((a, b) => b.dir.length - a.dir.length)[0]
+}
+
+/**
+ * Filters the prepared files that belong to a locale.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param locale - The locale.
+ * @param locales - All resolved locales.
+ * @returns The files of the locale.
+ */
+export function filterFilesByLocale(
+	preparedFiles: PreparedFile[],
+	locale: ResolvedLocale,
+	locales: ResolvedLocale[],
+): PreparedFile[] {
+	return preparedFiles.filter((file) => findLocale(file.path, locales) === locale)
+}
@@ -0,0 +1,1018 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import matter from 'gray-matter'
+import { millify } from 'millify'
+import { minimatch } from 'minimatch'
+import pc from 'picocolors'
+import { remark } from 'remark'
+import remarkFrontmatter from 'remark-frontmatter'
+import { approximateTokenSize } from 'tokenx'
+import { remove } from 'unist-util-remove'
+// @ts-expect-error Module '"vite"' declares 'OutputBundle' locally, but it is not exported. ts(2459)
+import type { OutputBundle } from 'vite'
+import type { DefaultTheme } from 'vitepress'
+import { defaultLLMsTxtTemplate } from '@/constants'
+import {
+	type GenerateLLMsFullTxtOptions,
+	generateLLMsFullTxt,
+	generateLLMsFullTxtIndex,
+	splitLLMsFullTxt,
+} from '@/generator/llms-full-txt'
+import { generateLLMsTxt } from '@/generator/llms-txt'
+import { generateLLMFriendlyPage, generateLLMFriendlyPages } from '@/generator/page-generator'
+import {
+	collectPathsFromSidebarItems,
+	flattenSidebarConfig,
+	groupFilesBySidebarSection,
+	isPathMatch,
+} from '@/generator/toc'
+import type { PreparedFile, ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+import remarkCodeBlocks from '@/markdown/remark-plugins/code-blocks'
+import remarkComponents, { resolveComponentRenderers } from '@/markdown/remark-plugins/components'
+import remarkContainers, { resolveContainerRenderers } from '@/markdown/remark-plugins/containers'
+import remarkPlease from '@/markdown/remark-plugins/remark-please'
+import remarkReplaceImageUrls from '@/markdown/remark-plugins/replace-image-urls'
+import remarkReplaceLinks, { resolveRoute } from '@/markdown/remark-plugins/replace-links'
+import remarkInclude from '@/markdown/remark-plugins/snippets'
+import {
+	getCachedPreparedFile,
+	hashSettings,
+	loadPreparedFilesCache,
+	type PreparedFilesCache,
+	resolveCacheDir,
+	savePreparedFilesCache,
+	setCachedPreparedFile,
+} from '@/plugin/cache'
+import { filterFilesByLocale, findLocale, type ResolvedLocale, resolveLocales } from '@/plugin/locales'
+import { reportValidationIssues, validateLLMDocs } from '@/plugin/validation'
+import type { CustomTemplateVariables, LlmstxtSettings } from '@/types.d'
+import {
+	getDirectoriesAtDepths,
+	getGitTimestamp,
+	stripExtPosix,
+	transformToPosixPath,
+} from '@/utils/file-utils'
+import { getHumanReadableSizeOf, slugify } from '@/utils/helpers'
+import log from '@/utils/logger'
+import { extractTitle, getLLMsPageOptions, isExcludedFromLLMs } from '@/utils/markdown'
+import { generateProvenanceMap, parseProvenanceMarker, provenanceMapFileName } from '@/utils/provenance'
+import { expandTemplate, generateLink } from '@/utils/template-utils'
+import { resolveOutputFilePath, resolveSourceFilePath } from '@/utils/vitepress-rewrites'
+
+/**
+ * Checks whether a source file is the main page (`index.md`) of the documentation, taking rewrites into account.
+ *
+ * @param file - The path to the source markdown file.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns `true` if the file is the main page.
+ */
+export function isMainPageFile(
+	file: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): boolean {
+	const resolvedOutFilePath = resolveOutputFilePath(
+		file,
+		settings.workDir,
+		config.vitepress.userConfig?.rewrites,
+	)
+
+	return path.relative(settings.workDir, resolvedOutFilePath) === 'index.md'
+}
+
+/**
+ * Checks whether a file is a markdown file inside `workDir` that doesn't match any of the `ignoreFiles` patterns.
+ *
+ * The main page is never ignored, since it's needed for `llms.txt`.
+ *
+ * @param file - The path to the file.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns `true` if the file should be processed.
+ */
+export function isProcessableFile(
+	file: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): boolean {
+	if (!file.endsWith('.md') || !path.resolve(file).startsWith(settings.workDir)) {
+		return false
+	}
+
+	const relativePath = path.relative(settings.workDir, file)
+	const shouldIgnore = settings.ignoreFiles.some(
+		(pattern) => typeof pattern === 'string' && minimatch(relativePath, pattern),
+	)
+
+	return !shouldIgnore || isMainPageFile(file, settings, config)
+}
+
+/**
+ * Resolves the sidebar that should be used for the table of contents.
+ *
+ * The sidebar option has to be resolved before reading `mdFiles`
+ * in order to process files from content loaders used in the sidebar function.
+ *
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The resolved sidebar, if any.
+ */
+export async function resolveSidebar(
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): Promise<DefaultTheme.Sidebar | undefined> {
+	return settings.sidebar instanceof Function
+		? await settings.sidebar(config?.vitepress?.userConfig?.themeConfig?.sidebar)
+		: settings.sidebar
+}
+
+/** The properties of a Rollup output asset needed to map it to its source file. */
+interface BundleAsset {
+	type: 'asset'
+	fileName: string
+	name?: string
+	names?: string[]
+	originalFileName?: string | null
+	originalFileNames?: string[]
+}
+
+/**
+ * Collects the images and videos emitted by the bundle.
+ *
+ * @param bundle - The output bundle.
+ * @param root - The Vite root the original file names of the assets are relative to.
+ * @returns Map of the source paths of the assets to the hashed file paths.
+ */
+export function collectImageMap(bundle: OutputBundle | undefined, root = '.'): Map<string, string> {
+	const imageMap = new Map<string, string>()
+
+	const assets = Object.values(bundle ?? {}).filter(
+		(asset): asset is BundleAsset =>
+			!!asset &&
+			typeof asset === 'object' &&
+			'type' in asset &&
+			asset.type === 'asset' &&
+			'fileName' in asset &&
+			typeof asset.fileName === 'string' &&
+			/\.(png|jpe?g|gif|svg|webp|avif|mp4|webm|ogv|mov)$/i.test(path.extname(asset.fileName)),
+	)
+
+	for (const asset of assets) {
+		const originalFileNames = asset.originalFileNames?.length
+			? asset.originalFileNames
+			: asset.originalFileName
+				? [asset.originalFileName]
+				: []
+
+		for (const originalFileName of originalFileNames) {
+			imageMap.set(path.resolve(root, originalFileName), asset.fileName)
+		}
+
+		// Assets without the source path can still be matched by their name, as long as it's unique
+		if (originalFileNames.length === 0) {
+			imageMap.set(path.posix.basename(asset.names?.[0] ?? asset.name ?? asset.fileName), asset.fileName)
+		}
+	}
+
+	return imageMap
+}
+
+/**
+ * Resolves the path of the LLM-friendly version of a source file, relative to the output directory.
+ *
+ * @param file - The path to the source markdown file.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The output path (e.g. `guide.md` for `guide/index.md`).
+ */
+export function resolvePreparedFilePath(
+	file: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): string {
+	const resolvedOutFilePath = path.relative(
+		settings.workDir,
+		resolveOutputFilePath(file, settings.workDir, config.vitepress.userConfig?.rewrites),
+	)
+
+	return path.basename(resolvedOutFilePath) === 'index.md' &&
+		// Suspicious.
+		path.dirname(resolvedOutFilePath) !== '.' &&
+		path.dirname(resolvedOutFilePath) !== ''
+		? `${path.dirname(resolvedOutFilePath)}.md`
+		: resolvedOutFilePath
+}
+
+/** Page link maps by the list of pages they were resolved from. */
+const pageLinksCache = new WeakMap<string[], Promise<Map<string, string | undefined>>>()
+
+/**
+ * Resolves the URLs of the LLM-friendly pages by the route of each page of the site.
+ *
+ * Pages without an LLM-friendly version (ignored, outside of `workDir` or with `llms: false`
+ * in the frontmatter) are mapped to `undefined`, pages with `llms.page: false` to their HTML version.
+ *
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The URLs by route, or `undefined` if VitePress didn't provide the list of pages.
+ */
+export function resolvePageLinks(
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): Promise<Map<string, string | undefined>> | undefined {
+	const pages = config.vitepress?.pages
+
+	if (!pages) {
+		return undefined
+	}
+
+	let pageLinks = pageLinksCache.get(pages)
+	if (!pageLinks) {
+		pageLinks = resolvePageLinksOf(pages, settings, config)
+		pageLinksCache.set(pages, pageLinks)
+	}
+
+	return pageLinks
+}
+
+/**
+ * Resolves the URLs of the LLM-friendly pages, see {@link resolvePageLinks}.
+ *
+ * @param pages - The pages of the site relative to the source directory.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The URLs by route.
+ */
+async function resolvePageLinksOf(
+	pages: string[],
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): Promise<Map<string, string | undefined>> {
+	const srcDir = config.vitepress.srcDir
+
+	const entries = await Promise.all(
+		pages.map(async (page): Promise<[string, string | undefined]> => {
+			const file = path.resolve(srcDir, page)
+			const outputPath = path.relative(
+				srcDir,
+				resolveOutputFilePath(file, srcDir, config.vitepress.userConfig?.rewrites),
+			)
+			const route = resolveRoute(transformToPosixPath(outputPath)) ?? outputPath
+
+			if (
+				!settings.generateLLMFriendlyDocsForEachPage ||
+				!isProcessableFile(file, settings, config) ||
+				(settings.excludeIndexPage && isMainPageFile(file, settings, config))
+			) {
+				return [route, undefined]
+			}
+
+			const frontmatter = matter(await fs.readFile(file, 'utf-8').catch(() => ''))
+			if (isExcludedFromLLMs(frontmatter)) {
+				return [route, undefined]
+			}
+
+			// Pages without the LLM-friendly version are linked to their HTML version, like in `llms.txt`
+			return [
+				route,
+				generateLink(
+					stripExtPosix(resolvePreparedFilePath(file, settings, config)),
+					settings.domain,
+					getLLMsPageOptions(frontmatter).page === false ? '.html' : '.md',
+					config.base,
+				),
+			]
+		}),
+	)
+
+	return new Map(entries)
+}
+
+/**
+ * Reads a markdown file and runs it through the remark pipeline.
+ *
+ * @param file - The path to the source markdown file.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param imageMap - Map of the source paths of the images to the hashed file paths.
+ * @param cache - Optional cache of prepared files from the previous build.
+ * @returns The prepared file.
+ */
+export async function prepareFile(
+	file: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	imageMap: Map<string, string> = new Map(),
+	cache?: PreparedFilesCache,
+): Promise<PreparedFile> {
+	const [content, lastUpdated] = await Promise.all([
+		fs.readFile(file, 'utf-8'),
+		config.vitepress.userConfig?.lastUpdated ? getGitTimestamp(file) : undefined,
+	])
+
+	const cachedFile = cache && (await getCachedPreparedFile(cache, file, content))
+	if (cachedFile) {
+		return { ...cachedFile, ...(lastUpdated && { lastUpdated }) }
+	}
+
+	const markdownProcessor = remark()
+		.use(remarkFrontmatter)
+		.use(
+			remarkInclude({
+				srcDir: settings.workDir,
+				aliases: config.resolve?.alias,
+				provenance: settings.provenance,
+				maxDepth: settings.maxIncludeDepth,
+			}),
+		)
+		.use(remarkPlease('unwrap', 'llm-only'))
+		.use(remarkPlease('remove', 'llm-exclude'))
+		.use(remarkContainers(resolveContainerRenderers(settings.containers)))
+		.use(remarkComponents(resolveComponentRenderers(settings.components)))
+		.use(remarkCodeBlocks(settings.codeBlocks))
+		.use(
+			remarkReplaceImageUrls(imageMap, {
+				srcDir: config.vitepress.srcDir,
+				base: config.base,
+				domain: settings.domain,
+			}),
+		)
+
+	const pageLinks = await resolvePageLinks(settings, config)
+	if (pageLinks) {
+		markdownProcessor.use(
+			remarkReplaceLinks({
+				pages: pageLinks,
+				pagePath: transformToPosixPath(
+					path.relative(
+						config.vitepress.srcDir,
+						resolveOutputFilePath(file, config.vitepress.srcDir, config.vitepress.userConfig?.rewrites),
+					),
+				),
+				base: config.base,
+			}),
+		)
+	}
+
+	if (settings.stripHTML) {
+		// Strip HTML tags
+		markdownProcessor.use(() => {
+			return (tree) => {
+				// The provenance markers are HTML comments, but they have to stay
+				remove(
+					tree,
+					(node) =>
+						node.type === 'html' &&
+						!(
+							settings.provenance &&
+							'value' in node &&
+							typeof node.value === 'string' &&
+							parseProvenanceMarker(node.value)
+						),
+				)
+				return tree
+			}
+		})
+	}
+
+	const processedFile = await markdownProcessor.process({
+		cwd: settings.workDir,
+		path: file,
+		value: content,
+	})
+
+	const processedMarkdown = matter(String(processedFile))
+
+	// Extract title from frontmatter or use the first heading
+	const title = extractTitle(processedMarkdown)?.trim() || 'Untitled'
+
+	const preparedFile: PreparedFile = {
+		path: resolvePreparedFilePath(file, settings, config),
+		title,
+		file: processedMarkdown,
+		includes: (processedFile.data['includes'] as string[] | undefined) ?? [],
+		unresolvedIncludes: (processedFile.data['unresolvedIncludes'] as string[] | undefined) ?? [],
+		missingIncludes: (processedFile.data['missingIncludes'] as string[] | undefined) ?? [],
+		brokenLinks: (processedFile.data['brokenLinks'] as string[] | undefined) ?? [],
+		...(lastUpdated && { lastUpdated }),
+	}
+
+	if (cache) {
+		await setCachedPreparedFile(cache, file, content, preparedFile, String(processedFile))
+	}
+
+	return preparedFile
+}
+
+/**
+ * Sorts prepared files by their `llms.priority` frontmatter and then by title for better organization.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @returns The same array, sorted in place.
+ */
+export function sortPreparedFiles(preparedFiles: PreparedFile[]): PreparedFile[] {
+	const getPriority = (file: PreparedFile) => getLLMsPageOptions(file.file).priority ?? 0
+
+	return preparedFiles.sort((a, b) => getPriority(b) - getPriority(a) || a.title.localeCompare(b.title))
+}
+
+/**
+ * Prepares all markdown files and sorts them by title.
+ *
+ * Pages with `llms: false` in the frontmatter are left out.
+ * Unchanged files are reused from the previous build if the {@link LlmstxtSettings.cache | `cache`} is enabled.
+ *
+ * @param files - The paths to the source markdown files.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param imageMap - Map of the source paths of the images to the hashed file paths.
+ * @returns The prepared files.
+ */
+export async function prepareFiles(
+	files: string[],
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	imageMap: Map<string, string> = new Map(),
+): Promise<PreparedFile[]> {
+	const cache = settings.cache
+		? await loadPreparedFilesCache(
+				resolveCacheDir(settings, config),
+				hashSettings(settings, config, imageMap),
+			)
+		: undefined
+
+	const preparedFiles = await Promise.all(
+		files.map((file) => prepareFile(file, settings, config, imageMap, cache)),
+	)
+
+	if (cache) {
+		log.info(`Reused ${pc.bold(cache.hits.toString())} unchanged files from the cache`)
+		await savePreparedFilesCache(cache)
+	}
+
+	return sortPreparedFiles(preparedFiles.filter((preparedFile) => !isExcludedFromLLMs(preparedFile.file)))
+}
+
+/** The files, the configuration and the sidebar the files of a directory are generated from. */
+interface DirectoryContext {
+	/** The prepared files, narrowed down to the locale of the directory. */
+	preparedFiles: PreparedFile[]
+
+	/** The VitePress configuration with the locale-specific options applied. */
+	config: VitePressConfig
+
+	/** The sidebar of the locale. */
+	sidebar: DefaultTheme.Sidebar | undefined
+
+	/** The locale the directory belongs to, if the site is multilingual. */
+	locale: ResolvedLocale | undefined
+
+	/** All locales of the site. */
+	locales: ResolvedLocale[]
+}
+
+/**
+ * Resolves the context the files of a directory are generated from, taking the locales into account.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param directoryFilter - The directory (relative to `workDir`), `.` for the root.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @returns The context of the directory.
+ */
+function resolveDirectoryContext(
+	preparedFiles: PreparedFile[],
+	directoryFilter: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+): DirectoryContext {
+	const locales = resolveLocales(settings, config)
+	const locale = findLocale(directoryFilter, locales)
+
+	if (!locale) {
+		return { preparedFiles, config, sidebar, locale, locales }
+	}
+
+	return {
+		preparedFiles: filterFilesByLocale(preparedFiles, locale, locales),
+		config: { ...config, vitepress: { ...config.vitepress, userConfig: locale.userConfig } },
+		// The sidebar from the settings takes precedence in the root locale only
+		sidebar: locale.dir === '.' ? (sidebar ?? locale.sidebar) : (locale.sidebar ?? sidebar),
+		locale,
+		locales,
+	}
+}
+
+/**
+ * Gets the directories `llms.txt` and `llms-full.txt` are generated in.
+ *
+ * These are the directories up to {@link LlmstxtSettings.experimental | `experimental.depth`}
+ * and the directories of the locales.
+ *
+ * @param mdFilesList - The paths to the source markdown files.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @returns The directories relative to `workDir`, `.` for the root.
+ */
+export function getOutputDirectories(
+	mdFilesList: string[],
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+): string[] {
+	const directories = getDirectoriesAtDepths(
+		mdFilesList,
+		settings.workDir,
+		settings.experimental?.depth ?? 1,
+	).map((directory) => directory.relativePath)
+
+	for (const locale of resolveLocales(settings, config)) {
+		const localeDir = path.normalize(locale.dir)
+		const hasFiles = mdFilesList.some((file) =>
+			path.relative(settings.workDir, file).startsWith(localeDir + path.sep),
+		)
+
+		if (hasFiles && !directories.includes(localeDir)) {
+			directories.push(localeDir)
+		}
+	}
+
+	return directories
+}
+
+/**
+ * Collects the links of the sidebar groups with the given names, including the ones of nested groups.
+ *
+ * @param items - The sidebar items.
+ * @param groupNames - The names of the groups.
+ * @returns The links of the pages in the groups.
+ */
+async function collectSidebarGroupPaths(
+	items: DefaultTheme.SidebarItem[],
+	groupNames: string[],
+): Promise<string[]> {
+	const paths = await Promise.all(
+		items.map((item) => {
+			if (item.text && groupNames.includes(item.text)) {
+				return collectPathsFromSidebarItems(item.items ?? [], item.base)
+			}
+
+			return item.items ? collectSidebarGroupPaths(item.items, groupNames) : []
+		}),
+	)
+
+	return paths.flat()
+}
+
+/**
+ * Resolves the pages that are optional according to {@link LlmstxtSettings.optionalPages | `optionalPages`}
+ * or their `llms.optional` frontmatter.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param settings - The plugin settings.
+ * @param sidebar - The sidebar the groups are looked up in.
+ * @returns The optional files.
+ */
+export async function resolveOptionalFiles(
+	preparedFiles: PreparedFile[],
+	settings: ResolvedLlmstxtSettings,
+	sidebar: DefaultTheme.Sidebar | undefined,
+): Promise<PreparedFile[]> {
+	const { files: patterns = [], sidebarGroups = [] } = settings.optionalPages ?? {}
+
+	const sidebarPaths =
+		sidebar && sidebarGroups.length
+			? await collectSidebarGroupPaths(flattenSidebarConfig(sidebar), sidebarGroups)
+			: []
+
+	return preparedFiles.filter((file) => {
+		const filePath = transformToPosixPath(file.path)
+
+		return (
+			getLLMsPageOptions(file.file).optional ||
+			patterns.some((pattern) => minimatch(filePath, pattern)) ||
+			sidebarPaths.some((sidebarPath) => isPathMatch(`/${stripExtPosix(filePath)}`, sidebarPath))
+		)
+	})
+}
+
+/** A `llms-full` file with the pages of a top-level sidebar section. */
+interface SectionBundle {
+	/** The title of the sidebar section. */
+	title: string
+
+	/** The name of the file without the extension, e.g. `llms-full-getting-started`. */
+	name: string
+
+	/** The pages of the section in the sidebar order. */
+	files: PreparedFile[]
+}
+
+/**
+ * Resolves the `llms-full` files generated for each top-level sidebar section
+ * if {@link LlmstxtSettings.generateLLMsFullTxtPerSection | `generateLLMsFullTxtPerSection`} is enabled.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @returns The section bundles, empty if they are disabled or there is no sidebar.
+ */
+export async function resolveSectionBundles(
+	preparedFiles: PreparedFile[],
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+): Promise<SectionBundle[]> {
+	const sidebarConfig = sidebar ?? config.vitepress?.userConfig?.themeConfig?.sidebar
+
+	if (!settings.generateLLMsFullTxt || !settings.generateLLMsFullTxtPerSection || !sidebarConfig) {
+		return []
+	}
+
+	const usedNames = new Set<string>()
+
+	const groups = (await groupFilesBySidebarSection(preparedFiles, sidebarConfig)).filter(
+		({ section }) => section.text && section.items?.length,
+	)
+
+	return groups.map(({ section, files }) => {
+		const slug = slugify(section.text as string) || 'section'
+		let name = `llms-full-${slug}`
+
+		// Sections with the same name (e.g. in different sidebars) get a numeric suffix
+		for (let index = 2; usedNames.has(name); index++) {
+			name = `llms-full-${slug}-${index}`
+		}
+		usedNames.add(name)
+
+		return { title: section.text as string, name, files }
+	})
+}
+
+/**
+ * Renders the content of a `llms.txt` file.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param directoryFilter - The directory (relative to `workDir`) the file is generated for, `.` for the root.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @returns The content of the `llms.txt` file.
+ */
+export async function renderLLMsTxt(
+	preparedFiles: PreparedFile[],
+	directoryFilter: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+): Promise<string> {
+	const context = resolveDirectoryContext(preparedFiles, directoryFilter, settings, config, sidebar)
+	const isRoot = directoryFilter === '.'
+
+	const sectionBundles = isRoot
+		? await resolveSectionBundles(context.preparedFiles, settings, context.config, context.sidebar)
+		: []
+	const otherLocales = isRoot ? context.locales.filter((locale) => locale !== context.locale) : []
+
+	const templateVariables: CustomTemplateVariables = {
+		title: settings.title,
+		description: settings.description,
+		details: settings.details,
+		toc: settings.toc,
+		bundles: sectionBundles.length
+			? `\n## Full Documentation by Section\n\n${sectionBundles
+					.map(
+						(bundle) =>
+							`- [${bundle.title}](${generateLink(bundle.name, settings.domain, '.txt', config.base)})\n`,
+					)
+					.join('')}`
+			: undefined,
+		locales: otherLocales.length
+			? `\n## Languages\n\n${otherLocales
+					.map(
+						(locale) =>
+							`- [${locale.label}](${generateLink(path.posix.join(locale.dir, 'llms'), settings.domain, '.txt', config.base)})\n`,
+					)
+					.join('')}`
+			: undefined,
+		...settings.customTemplateVariables,
+	}
+
+	return generateLLMsTxt(context.preparedFiles, {
+		indexMd: path.resolve(
+			settings.workDir,
+			resolveSourceFilePath(
+				path.posix.join(context.locale?.dir ?? '.', 'index.md'),
+				settings.workDir,
+				config.vitepress.userConfig?.rewrites,
+			),
+		),
+		outDir: settings.workDir,
+		LLMsTxtTemplate: settings.customLLMsTxtTemplate || defaultLLMsTxtTemplate,
+		templateVariables,
+		vitepressConfig: context.config.vitepress?.userConfig,
+		domain: settings.domain,
+		sidebar: context.sidebar,
+		linksExtension: !settings.generateLLMFriendlyDocsForEachPage ? '.html' : undefined,
+		directoryFilter,
+		pageStats: settings.llmsTxtPageStats,
+		otherPages: settings.otherPages,
+		optionalFiles: await resolveOptionalFiles(
+			context.preparedFiles,
+			settings,
+			context.sidebar ?? context.config.vitepress?.userConfig?.themeConfig?.sidebar,
+		),
+	})
+}
+
+/**
+ * Renders the content of a `llms-full.txt` file.
+ *
+ * If the content exceeds {@link LlmstxtSettings.maxTokens | `maxTokens`}, it's split into
+ * `llms-full-1.txt`, `llms-full-2.txt`, ... and `llms-full.txt` becomes an index of the parts.
+ * Pages with `llms.fullTxt: false` in the frontmatter are left out, optional pages are placed last or left out
+ * depending on {@link LlmstxtSettings.optionalPages | `optionalPages.llmsFullTxt`}.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param directoryFilter - The directory (relative to `workDir`) the file is generated for, `.` for the root.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @param name - The name of the file without the extension.
+ * @returns The content of `llms-full.txt` and its parts by their path relative to the output directory.
+ */
+export async function renderLLMsFullTxt(
+	preparedFiles: PreparedFile[],
+	directoryFilter: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+	name = 'llms-full',
+): Promise<Map<string, string>> {
+	const sidebarConfig = sidebar ?? config.vitepress?.userConfig?.themeConfig?.sidebar
+	const optionalFiles = await resolveOptionalFiles(preparedFiles, settings, sidebarConfig)
+	const omitOptionalFiles = settings.optionalPages?.llmsFullTxt === 'omit'
+
+	const files = preparedFiles.filter(
+		(file) =>
+			getLLMsPageOptions(file.file).fullTxt !== false && !(omitOptionalFiles && optionalFiles.includes(file)),
+	)
+	const options: GenerateLLMsFullTxtOptions = {
+		domain: settings.domain,
+		linksExtension: !settings.generateLLMFriendlyDocsForEachPage ? '.html' : undefined,
+		base: config.base,
+		directoryFilter,
+		sidebar: settings.sortLLMsFullTxtBySidebar ? sidebarConfig : undefined,
+		sectionHeadings: settings.llmsFullTxtSectionHeadings,
+		images: settings.images?.llmsFullTxt,
+		optionalFiles,
+	}
+	const resolveFileName = (fileName: string) =>
+		directoryFilter === '.' ? fileName : path.join(directoryFilter, fileName)
+
+	const parts = settings.maxTokens ? await splitLLMsFullTxt(files, settings.maxTokens, options) : []
+
+	if (parts.length <= 1) {
+		return new Map([[resolveFileName(`${name}.txt`), await generateLLMsFullTxt(files, options)]])
+	}
+
+	const partFileNames = parts.map((_, index) => resolveFileName(`${name}-${index + 1}.txt`))
+	const outputs = new Map([
+		[resolveFileName(`${name}.txt`), generateLLMsFullTxtIndex(parts, partFileNames, options)],
+	])
+
+	parts.forEach((part, index) => {
+		const partFileName = partFileNames[index] as string
+		outputs.set(partFileName, part.content)
+
+		if (part.tokens > (settings.maxTokens as number)) {
+			log.warn(
+				`${pc.cyan(part.files[0]?.path ?? partFileName)} alone exceeds the \`${pc.bold('maxTokens')}\` limit (~${millify(part.tokens)} tokens), it's put into ${pc.cyan(partFileName)}`,
+			)
+		}
+	})
+
+	return outputs
+}
+
+/**
+ * Renders `llms-full.txt` along with its parts and, in the root directory, the bundles of each sidebar section.
+ *
+ * In a multilingual site, only the pages of the locale the directory belongs to are included.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param directoryFilter - The directory (relative to `workDir`) the files are generated for, `.` for the root.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @returns The content of the files by their path relative to the output directory.
+ */
+export async function renderLLMsFullTxtFiles(
+	preparedFiles: PreparedFile[],
+	directoryFilter: string,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+): Promise<Map<string, string>> {
+	const context = resolveDirectoryContext(preparedFiles, directoryFilter, settings, config, sidebar)
+	const outputs = await renderLLMsFullTxt(
+		context.preparedFiles,
+		directoryFilter,
+		settings,
+		context.config,
+		context.sidebar,
+	)
+
+	if (directoryFilter === '.') {
+		for (const bundle of await resolveSectionBundles(
+			context.preparedFiles,
+			settings,
+			context.config,
+			context.sidebar,
+		)) {
+			for (const [fileName, content] of await renderLLMsFullTxt(
+				bundle.files,
+				'.',
+				settings,
+				context.config,
+				context.sidebar,
+				bundle.name,
+			)) {
+				outputs.set(fileName, content)
+			}
+		}
+	}
+
+	return outputs
+}
+
+/**
+ * Generates `llms.txt`, `llms-full.txt` and the LLM-friendly version of each page
+ * according to the settings, optionally writing them to the output directory.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param mdFilesList - The paths to the source markdown files.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @param outDir - The directory to write the files to, nothing is written if omitted.
+ * @returns The generated files by their path relative to the output directory.
+ */
+export async function generateLLMDocs(
+	preparedFiles: PreparedFile[],
+	mdFilesList: string[],
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+	outDir?: string,
+): Promise<Map<string, string>> {
+	const outputs = new Map<string, string>()
+	const fileCount = mdFilesList.length
+
+	const tasks: Promise<void>[] = []
+
+	if (settings.generateLLMsTxt) {
+		// Get directories at specified depths and the directories of the locales
+		const directories = getOutputDirectories(mdFilesList, settings, config)
+
+		// Generate llms.txt for each directory
+		tasks.push(
+			...directories.map((directory) =>
+				(async () => {
+					const isRoot = directory === '.'
+					const directoryFilter = directory
+
+					// Determine output path
+					const outputFileName = isRoot ? 'llms.txt' : path.join(directory, 'llms.txt')
+					log.info(`Generating ${pc.cyan(outputFileName)}...`)
+
+					const llmsTxt = await renderLLMsTxt(preparedFiles, directoryFilter, settings, config, sidebar)
+
+					outputs.set(outputFileName, llmsTxt)
+
+					if (outDir) {
+						const llmsTxtPath = path.resolve(outDir, outputFileName)
+
+						// Create directory if needed
+						await fs.mkdir(path.dirname(llmsTxtPath), { recursive: true })
+						await fs.writeFile(llmsTxtPath, llmsTxt, 'utf-8')
+					}
+
+					log.success(
+						expandTemplate(
+							'Generated {file} (~{tokens} tokens, {size}) with {fileCount} documentation links',
+							{
+								file: pc.cyan(outputFileName),
+								tokens: pc.bold(millify(approximateTokenSize(llmsTxt))),
+								size: pc.bold(getHumanReadableSizeOf(llmsTxt)),
+								fileCount: pc.bold(fileCount.toString()),
+							},
+						),
+					)
+				})(),
+			),
+		)
+	}
+
+	// Generate llms-full.txt - all content in one file
+	if (settings.generateLLMsFullTxt) {
+		// Get the same directories for llms-full.txt as well
+		const directories = getOutputDirectories(mdFilesList, settings, config)
+
+		// Generate llms-full.txt for each directory
+		tasks.push(
+			...directories.map((directory) =>
+				(async () => {
+					const isRoot = directory === '.'
+					const directoryFilter = directory
+
+					log.info(
+						`Generating full documentation bundle (${pc.cyan(isRoot ? 'llms-full.txt' : path.join(directory, 'llms-full.txt'))})...`,
+					)
+
+					const llmsFullTxtFiles = await renderLLMsFullTxtFiles(
+						preparedFiles,
+						directoryFilter,
+						settings,
+						config,
+						sidebar,
+					)
+
+					for (const [outputFileName, llmsFullTxt] of llmsFullTxtFiles) {
+						outputs.set(outputFileName, llmsFullTxt)
+
+						if (outDir) {
+							const llmsFullTxtPath = path.resolve(outDir, outputFileName)
+
+							// Create directory if needed
+							await fs.mkdir(path.dirname(llmsFullTxtPath), { recursive: true })
+
+							// Write content to llms-full.txt
+							await fs.writeFile(llmsFullTxtPath, llmsFullTxt, 'utf-8')
+						}
+
+						log.success(
+							expandTemplate('Generated {file} (~{tokens} tokens, {size}) with {fileCount} markdown files', {
+								file: pc.cyan(outputFileName),
+								tokens: pc.bold(millify(approximateTokenSize(llmsFullTxt))),
+								size: pc.bold(getHumanReadableSizeOf(llmsFullTxt)),
+								fileCount: pc.bold(fileCount.toString()),
+							}),
+						)
+					}
+				})(),
+			),
+		)
+	}
+
+	if (settings.generateLLMFriendlyDocsForEachPage) {
+		const pages = preparedFiles.filter((file) => getLLMsPageOptions(file.file).page !== false)
+
+		for (const file of pages) {
+			outputs.set(
+				file.path,
+				generateLLMFriendlyPage(file, settings.domain, config.base, settings.images?.pages),
+			)
+		}
+
+		if (outDir) {
+			tasks.push(
+				generateLLMFriendlyPages(pages, outDir, settings.domain, config.base, settings.images?.pages),
+			)
+		}
+	}
+
+	if (tasks.length) {
+		await Promise.all(tasks)
+	}
+
+	if (settings.provenance) {
+		const provenanceMap = JSON.stringify(generateProvenanceMap(outputs), null, 2)
+		outputs.set(provenanceMapFileName, provenanceMap)
+
+		if (outDir) {
+			await fs.writeFile(path.resolve(outDir, provenanceMapFileName), provenanceMap, 'utf-8')
+		}
+	}
+
+	const issues = await validateLLMDocs(
+		preparedFiles,
+		new Map(mdFilesList.map((file) => [file, resolvePreparedFilePath(file, settings, config)])),
+		settings,
+		config,
+		sidebar,
+	)
+
+	reportValidationIssues(issues)
+
+	if (settings.strict && issues.length) {
+		throw new Error(
+			`Found ${issues.length} problem(s) in the documentation, see the report above. Disable \`strict\` to ignore them.`,
+		)
+	}
+
+	return outputs
+}
@@ -1,11 +1,10 @@
-import path from 'node:path'
 import pc from 'picocolors'
 import type { Plugin, ViteDevServer } from 'vite'
 import { name as packageName } from '@/../package.json'
-import { unnecessaryFilesList } from '@/constants'
 import type { VitePressConfig } from '@/internal-types'
 import { configureDevServer } from '@/plugin/dev-server'
 import { generateBundle, transform } from '@/plugin/hooks'
+import { resolveWorkDir, withDefaultSettings } from '@/plugin/settings'
 import type { LlmstxtSettings } from '@/types'
 import log from '@/utils/logger'
 
@@ -23,27 +22,7 @@ const PLUGIN_NAME = packageName
  */
 export function llmstxt(userSettings: LlmstxtSettings = {}): [Plugin, Plugin] {
 	// Create a settings object with defaults explicitly merged
-	const settings: Omit<LlmstxtSettings, 'ignoreFiles' | 'workDir'> & {
-		ignoreFiles: string[]
-		workDir: string
-	} = {
-		generateLLMsTxt: true,
-		generateLLMsFullTxt: true,
-		generateLLMFriendlyDocsForEachPage: true,
-		ignoreFiles: [],
-		excludeUnnecessaryFiles: true,
-		excludeIndexPage: true,
-		excludeBlog: true,
-		excludeTeam: true,
-		injectLLMHint: true,
-		workDir: undefined as unknown as string,
-		stripHTML: true,
-		experimental: {
-			depth: 1,
-			...userSettings.experimental,
-		},
-		...userSettings,
-	}
+	const settings = withDefaultSettings(userSettings)
 
 	// Store the resolved Vite config
 	let config: VitePressConfig
@@ -69,20 +48,13 @@ export function llmstxt(userSettings: LlmstxtSettings = {}): [Plugin, Plugin] {
 			// Run after all other plugins
 			enforce: 'post',
 
+			/** Exposes the settings to the CLI, which reads them from the VitePress config. */
+			api: { settings: userSettings },
+
 			/** Resolves the Vite configuration and sets up the working directory. */
 			configResolved(resolvedConfig) {
 				config = resolvedConfig as VitePressConfig
-				if (settings.workDir) {
-					settings.workDir = path.resolve(config.vitepress.srcDir, settings.workDir)
-				} else {
-					settings.workDir = path.resolve(config.vitepress.srcDir)
-				}
-
-				if (settings.excludeUnnecessaryFiles) {
-					settings.excludeIndexPage && settings.ignoreFiles.push(...unnecessaryFilesList.indexPage)
-					settings.excludeBlog && settings.ignoreFiles.push(...unnecessaryFilesList.blogs)
-					settings.excludeTeam && settings.ignoreFiles.push(...unnecessaryFilesList.team)
-				}
+				resolveWorkDir(settings, config.vitepress.srcDir)
 
 				// Detect if this is the SSR build
 				isSsrBuild = !!resolvedConfig.build?.ssr
@@ -92,9 +64,9 @@ export function llmstxt(userSettings: LlmstxtSettings = {}): [Plugin, Plugin] {
 				)
 			},
 
-			/** Configures the development server to handle `llms.txt` and markdown files for LLMs. */
+			/** Configures the development server to generate `llms.txt` and markdown files for LLMs on request. */
 			async configureServer(server: ViteDevServer) {
-				await configureDevServer(server, config)
+				await configureDevServer(server, config, settings, mdFiles)
 			},
 
 			/**
@@ -0,0 +1,53 @@
+import path from 'node:path'
+import { unnecessaryFilesList } from '@/constants'
+import type { ResolvedLlmstxtSettings } from '@/internal-types'
+import type { LlmstxtSettings } from '@/types'
+
+/**
+ * Creates a settings object with defaults explicitly merged.
+ *
+ * `workDir` stays unresolved until {@link resolveWorkDir} is called.
+ *
+ * @param userSettings - The settings provided by the user.
+ * @returns The settings with defaults.
+ */
+export function withDefaultSettings(userSettings: LlmstxtSettings): ResolvedLlmstxtSettings {
+	return {
+		generateLLMsTxt: true,
+		generateLLMsFullTxt: true,
+		generateLLMFriendlyDocsForEachPage: true,
+		ignoreFiles: [],
+		excludeUnnecessaryFiles: true,
+		excludeIndexPage: true,
+		excludeBlog: true,
+		excludeTeam: true,
+		injectLLMHint: true,
+		workDir: undefined as unknown as string,
+		stripHTML: true,
+		experimental: {
+			depth: 1,
+			...userSettings.experimental,
+		},
+		...userSettings,
+	}
+}
+
+/**
+ * Resolves `workDir` against the VitePress source directory and adds the unnecessary files to `ignoreFiles`.
+ *
+ * @param settings - The settings to update.
+ * @param srcDir - The VitePress source directory.
+ */
+export function resolveWorkDir(settings: ResolvedLlmstxtSettings, srcDir: string): void {
+	if (settings.workDir) {
+		settings.workDir = path.resolve(srcDir, settings.workDir)
+	} else {
+		settings.workDir = path.resolve(srcDir)
+	}
+
+	if (settings.excludeUnnecessaryFiles) {
+		settings.excludeIndexPage && settings.ignoreFiles.push(...unnecessaryFilesList.indexPage)
+		settings.excludeBlog && settings.ignoreFiles.push(...unnecessaryFilesList.blogs)
+		settings.excludeTeam && settings.ignoreFiles.push(...unnecessaryFilesList.team)
+	}
+}
@@ -0,0 +1,193 @@
+import path from 'node:path'
+import pc from 'picocolors'
+import type { DefaultTheme } from 'vitepress'
+import { collectPathsFromSidebarItems, flattenSidebarConfig, isPathMatch } from '@/generator/toc'
+import type { PreparedFile, ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+import { findImagesWithoutAlt } from '@/markdown/remark-plugins/images'
+import { resolveLocales } from '@/plugin/locales'
+import { stripExtPosix, transformToPosixPath } from '@/utils/file-utils'
+import log from '@/utils/logger'
+import { resolveOutputFilePath } from '@/utils/vitepress-rewrites'
+
+/** A problem found in the documentation while generating the LLM docs. */
+export interface ValidationIssue {
+	/** The kind of the problem. */
+	type:
+		| 'unmatched-sidebar-link'
+		| 'untitled-page'
+		| 'duplicate-output-path'
+		| 'unresolved-include'
+		| 'broken-link'
+		| 'missing-alt'
+
+	/**
+	 * Where the problem is, a page (relative to `workDir`) or a sidebar link.
+	 *
+	 * @example 'guide/getting-started.md'
+	 */
+	source: string
+
+	/** What's wrong. */
+	details: string
+}
+
+/** Labels of the issue types in the report. */
+const issueLabels: Record<ValidationIssue['type'], string> = {
+	'unmatched-sidebar-link': 'Sidebar link',
+	'untitled-page': 'Untitled page',
+	'duplicate-output-path': 'Duplicate path',
+	'unresolved-include': 'Unresolved include',
+	'broken-link': 'Broken link',
+	'missing-alt': 'Missing alt text',
+}
+
+/**
+ * Finds the sidebar links that don't lead to any page of the site.
+ *
+ * External links are skipped.
+ *
+ * @param preparedFiles - An array of prepared files, used if VitePress didn't provide the list of pages.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @returns The issues.
+ */
+async function findUnmatchedSidebarLinks(
+	preparedFiles: PreparedFile[],
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+): Promise<ValidationIssue[]> {
+	const sidebars = [
+		sidebar ?? config.vitepress?.userConfig?.themeConfig?.sidebar,
+		...resolveLocales(settings, config).map((locale) => locale.sidebar),
+	].filter((sidebar): sidebar is DefaultTheme.Sidebar => !!sidebar)
+
+	if (sidebars.length === 0) {
+		return []
+	}
+
+	const srcDir = config.vitepress.srcDir
+	// Pages that are ignored or excluded from the LLM docs are still valid link targets
+	const pages = config.vitepress.pages
+		? config.vitepress.pages.map((page) =>
+				path.relative(
+					srcDir,
+					resolveOutputFilePath(path.resolve(srcDir, page), srcDir, config.vitepress.userConfig?.rewrites),
+				),
+			)
+		: preparedFiles.map((file) => path.relative(srcDir, path.resolve(settings.workDir, file.path)))
+	const pagePaths = pages.map((page) => `/${transformToPosixPath(stripExtPosix(page))}`)
+
+	const links = new Set(
+		(
+			await Promise.all(
+				sidebars.map((sidebar) => collectPathsFromSidebarItems(flattenSidebarConfig(sidebar))),
+			)
+		).flat(),
+	)
+
+	return Array.from(links)
+		.filter((link) => !/^[a-z][a-z\d+.-]*:/i.test(link))
+		.filter((link) => {
+			const linkPath = `/${link.replace(/[#?].*$/, '').replace(/^\/+|\/+$/g, '')}`
+			return !pagePaths.some((pagePath) => isPathMatch(pagePath, linkPath))
+		})
+		.map((link) => ({ type: 'unmatched-sidebar-link', source: link, details: 'No page found for the link' }))
+}
+
+/**
+ * Validates the documentation the LLM docs are generated from.
+ *
+ * Looks for sidebar links that don't lead to any page, pages without a title,
+ * pages that end up with the same output path after rewrites, includes that can't be resolved,
+ * links to pages that don't exist and, if images are turned into text, images without an alt text.
+ *
+ * @param preparedFiles - An array of prepared files.
+ * @param outputPaths - The output paths (relative to `workDir`) of the source markdown files by their path.
+ * @param settings - The plugin settings.
+ * @param config - The VitePress configuration.
+ * @param sidebar - The resolved sidebar.
+ * @returns The issues found.
+ */
+export async function validateLLMDocs(
+	preparedFiles: PreparedFile[],
+	outputPaths: Map<string, string>,
+	settings: ResolvedLlmstxtSettings,
+	config: VitePressConfig,
+	sidebar: DefaultTheme.Sidebar | undefined,
+): Promise<ValidationIssue[]> {
+	const issues = await findUnmatchedSidebarLinks(preparedFiles, settings, config, sidebar)
+	// Alt texts only matter if images are turned into text
+	const checkAltTexts = [settings.images?.llmsFullTxt, settings.images?.pages].some(
+		(mode) => mode && mode !== 'keep',
+	)
+
+	for (const file of preparedFiles) {
+		if (file.title === 'Untitled') {
+			issues.push({
+				type: 'untitled-page',
+				source: file.path,
+				details: 'No title in the frontmatter and no heading',
+			})
+		}
+
+		for (const include of file.unresolvedIncludes ?? []) {
+			issues.push({ type: 'unresolved-include', source: file.path, details: include })
+		}
+
+		for (const link of file.brokenLinks ?? []) {
+			issues.push({ type: 'broken-link', source: file.path, details: link })
+		}
+
+		if (checkAltTexts) {
+			for (const image of findImagesWithoutAlt(file.file.content)) {
+				issues.push({ type: 'missing-alt', source: file.path, details: image })
+			}
+		}
+	}
+
+	const sourcesByOutputPath = new Map<string, string[]>()
+	for (const [file, outputPath] of outputPaths) {
+		sourcesByOutputPath.set(outputPath, [
+			...(sourcesByOutputPath.get(outputPath) ?? []),
+			path.relative(settings.workDir, file),
+		])
+	}
+
+	for (const [outputPath, sources] of sourcesByOutputPath) {
+		if (sources.length > 1) {
+			issues.push({
+				type: 'duplicate-output-path',
+				source: outputPath,
+				details: `Generated from ${sources.join(', ')}`,
+			})
+		}
+	}
+
+	return issues
+}
+
+/**
+ * Prints the issues as a table.
+ *
+ * @param issues - The issues found by {@link validateLLMDocs}.
+ */
+export function reportValidationIssues(issues: ValidationIssue[]): void {
+	if (issues.length === 0) {
+		return
+	}
+
+	log.warn(`Found ${pc.bold(issues.length.toString())} problem(s) in the documentation:`)
+
+	const rows = issues.map((issue) => ({ ...issue, label: issueLabels[issue.type] }))
+	const labelWidth = Math.max(7, ...rows.map((row) => row.label.length))
+	const sourceWidth = Math.max(6, ...rows.map((row) => row.source.length))
+
+	log.info(pc.bold(`${'Problem'.padEnd(labelWidth)}  ${'Source'.padEnd(sourceWidth)}  Details`))
+	for (const row of rows) {
+		log.info(
+			`${pc.yellow(row.label.padEnd(labelWidth))}  ${pc.cyan(row.source.padEnd(sourceWidth))}  ${row.details}`,
+		)
+	}
+}
@@ -35,6 +35,33 @@ interface TemplateVariables {
 	 */
 	// spell-checker:enable
 	toc?: string
+
+	/**
+	 * Links to the `llms-full` files of each sidebar section,
+	 * see {@link LlmstxtSettings.generateLLMsFullTxtPerSection | `generateLLMsFullTxtPerSection`}.
+	 *
+	 * @example
+	 * ```markdown
+	 * ## Full Documentation by Section
+	 *
+	 * - [Getting Started](/llms-full-getting-started.txt)
+	 * ```
+	 */
+	bundles?: string
+
+	// spell-checker:disable
+	/**
+	 * Links to the `llms.txt` files of the other locales, only in the root `llms.txt` of a multilingual site.
+	 *
+	 * @example
+	 * ```markdown
+	 * ## Languages
+	 *
+	 * - [Français](/fr/llms.txt)
+	 * ```
+	 */
+	locales?: string
+	// spell-checker:enable
 }
 
 interface CustomTemplateVariables extends TemplateVariables {
@@ -42,6 +69,144 @@ interface CustomTemplateVariables extends TemplateVariables {
 	[key: string]: string | undefined
 }
 
+/** The page passed to the function form of {@link LlmstxtSettings.llmHint | `llmHint`}. */
+export interface LLMHintPage {
+	/**
+	 * The path of the page relative to `workDir`, with VitePress rewrites applied.
+	 *
+	 * @example 'guide/getting-started.md'
+	 */
+	path: string
+
+	/** The frontmatter of the page. */
+	frontmatter: Record<string, unknown>
+
+	/** Whether the page is the main page (`index.md` in `workDir`). */
+	isMainPage: boolean
+
+	/**
+	 * The key of the VitePress locale the page belongs to.
+	 *
+	 * @example 'fr'
+	 */
+	locale: string
+}
+
+/** A hint template, or a function returning one for the given page. */
+export type LLMHint = string | ((page: LLMHintPage) => string | undefined)
+
+/**
+ * How images are rendered in the LLM docs:
+ *
+ * - `'keep'`: Images are kept as they are
+ * - `'placeholder'`: Images are replaced with a text built from the alt text, the title and the caption,
+ *   e.g. `[Image: Request flow — Figure 1]`
+ * - `'drop'`: Images are removed along with their captions starting with `Figure` or `Fig.`
+ */
+export type ImagesMode = 'keep' | 'placeholder' | 'drop'
+
+/**
+ * How the titles of the code blocks (` ```ts [config.ts] `) are rendered in the LLM docs:
+ *
+ * - `'label'`: A bold label before the code block, e.g. `**config.ts**`
+ * - `'comment'`: A comment on the first line of the code, e.g. `// config.ts`,
+ *   falls back to `'label'` for languages without a known comment syntax
+ * - `'drop'`: The titles are removed
+ */
+export type CodeBlockTitleMode = 'label' | 'comment' | 'drop'
+
+/**
+ * How the content included from other files is marked with its source:
+ *
+ * - `'comment'`: HTML comments, e.g. `<!-- source: parts/intro.md#L1-L12 -->` and `<!-- end source: parts/intro.md -->`
+ * - `'line'`: Plain lines, e.g. `source: parts/intro.md#L1-L12` and `end source: parts/intro.md`
+ */
+export type ProvenanceMode = 'comment' | 'line'
+
+/**
+ * Renders a Vue component used in the markdown to markdown.
+ *
+ * @param props - The attributes of the component. Bound props (`:count="3"`) are passed as written,
+ * string literals without the quotes, and attributes without a value as `true`.
+ * @param slot - The markdown of the default slot.
+ * @returns The markdown to replace the component with, or `undefined` to leave it as is.
+ *
+ * @example
+ * ```typescript
+ * const ApiTable: ComponentRenderer = (props) => `See the API of \`${props.name}\`.`
+ * ```
+ */
+export type ComponentRenderer = (props: Record<string, string | true>, slot: string) => string | undefined
+
+/**
+ * Renders a VitePress container (`::: warning`) to plain markdown.
+ *
+ * @param content - The markdown inside the container.
+ * @param title - The custom title of the container (`::: warning Careful`), if any.
+ * @returns The markdown to replace the container with, or `undefined` to leave it as is.
+ *
+ * @example
+ * ```typescript
+ * const warning: ContainerRenderer = (content, title) => `**${title ?? 'Warning'}:** ${content}`
+ * ```
+ */
+export type ContainerRenderer = (content: string, title: string | undefined) => string | undefined
+
+/**
+ * Options of a single page, set in its frontmatter under the `llms` key.
+ *
+ * Set `llms: false` to leave the page out of the LLM docs entirely.
+ *
+ * @example
+ * ```markdown
+ * ---
+ * title: Changelog
+ * llms:
+ *   fullTxt: false
+ *   description: All notable changes, newest first
+ *   priority: -1
+ * ---
+ * ```
+ */
+export interface LLMsPageOptions {
+	/**
+	 * Whether to include the page in `llms-full.txt`.
+	 *
+	 * @default true
+	 */
+	fullTxt?: boolean
+
+	/**
+	 * Whether to generate the LLM-friendly version of the page.
+	 *
+	 * If disabled, the page is still listed in `llms.txt`, but linked to its HTML version.
+	 *
+	 * @default true
+	 */
+	page?: boolean
+
+	/** The title used instead of the `title` frontmatter or the first heading of the page. */
+	title?: string
+
+	/** The description used instead of the `description` frontmatter of the page. */
+	description?: string
+
+	/**
+	 * Pages with a higher priority are listed first wherever pages aren't ordered by the sidebar.
+	 *
+	 * @default 0
+	 */
+	priority?: number
+
+	/**
+	 * Whether the page is secondary and can be skipped when the context is short,
+	 * see {@link LlmstxtSettings.optionalPages | `optionalPages`}.
+	 *
+	 * @default false
+	 */
+	optional?: boolean
+}
+
 export interface LlmstxtSettings extends TemplateVariables {
 	/**
 	 * The domain that will be appended to the beginning of URLs in `llms.txt` and in the context of other files
@@ -76,6 +241,61 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 */
 	generateLLMsTxt?: boolean
 
+	/**
+	 * Whether to append the approximate token count and size of each page to its entry in `llms.txt`.
+	 *
+	 * ---
+	 *
+	 * Lets agents decide which pages fit into their context before fetching them:
+	 *
+	 * ```markdown
+	 * - [Getting Started](/guide/getting-started.md): How to install the tool (~1.2K tokens, 4.8 kB)
+	 * ```
+	 *
+	 * @default false
+	 */
+	llmsTxtPageStats?: boolean
+
+	/**
+	 * How the pages that aren't in the sidebar are listed in `llms.txt`.
+	 *
+	 * ---
+	 *
+	 * By default, they are listed in alphabetical order under the `### Other` section.
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({
+	 *     otherPages: {
+	 *         // Group the pages by directory, using the titles of their `index.md` (or the directory names) as headings
+	 *         groupBy: 'directory',
+	 *         // List the groups without the `### Other` heading
+	 *         title: false,
+	 *     },
+	 * })
+	 * ```
+	 */
+	otherPages?: {
+		/**
+		 * How the pages are grouped:
+		 *
+		 * - `'none'`: All pages are listed together
+		 * - `'directory'`: The pages are grouped by directory, with the title of the `index.md` of the directory
+		 *   (or the name of the directory) as the heading
+		 * - `'drop'`: The pages aren't listed at all
+		 *
+		 * @default 'none'
+		 */
+		groupBy?: 'none' | 'directory' | 'drop'
+
+		/**
+		 * The heading of the section, `false` to list the pages without it.
+		 *
+		 * @default 'Other'
+		 */
+		title?: string | false
+	}
+
 	/**
 	 * Determines whether to generate the `llms-full.txt` which contains all the documentation in one file.
 	 *
@@ -83,6 +303,44 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 */
 	generateLLMsFullTxt?: boolean
 
+	/**
+	 * Whether to additionally generate a `llms-full` file for each top-level sidebar section.
+	 *
+	 * ---
+	 *
+	 * The section names are turned into file names (e.g. `llms-full-getting-started.txt` for "Getting Started"),
+	 * and the files are linked from the root `llms.txt`.
+	 *
+	 * This is useful when the structure of the documentation is defined by the sidebar
+	 * rather than by the directories (see {@link LlmstxtSettings.experimental | `experimental.depth`}).
+	 *
+	 * @default false
+	 */
+	generateLLMsFullTxtPerSection?: boolean
+
+	/**
+	 * Whether to order the pages in `llms-full.txt` by their position in the sidebar instead of by title.
+	 *
+	 * ---
+	 *
+	 * Pages that aren't in the sidebar are appended at the end.
+	 *
+	 * @default false
+	 */
+	sortLLMsFullTxtBySidebar?: boolean
+
+	/**
+	 * Whether to insert the names of the sidebar groups as headings in `llms-full.txt`.
+	 *
+	 * ---
+	 *
+	 * Only applies if {@link LlmstxtSettings.sortLLMsFullTxtBySidebar | `sortLLMsFullTxtBySidebar`} is enabled.
+	 * Each group starts with a heading like `# Getting Started`, pages that aren't in the sidebar are put under `# Other`.
+	 *
+	 * @default false
+	 */
+	llmsFullTxtSectionHeadings?: boolean
+
 	/**
 	 * Determines whether to generate an LLM-friendly version of the documentation for each page on the website.
 	 *
@@ -90,6 +348,26 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 */
 	generateLLMFriendlyDocsForEachPage?: boolean
 
+	/**
+	 * The maximum number of tokens in `llms-full.txt`.
+	 *
+	 * ---
+	 *
+	 * If the full documentation bundle is larger, it's split along page boundaries into
+	 * `llms-full-1.txt`, `llms-full-2.txt`, etc., and `llms-full.txt` becomes an index
+	 * listing the pages and the approximate token count of each part.
+	 *
+	 * Tokens are estimated with [`tokenx`](https://github.com/johannschopplich/tokenx).
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({ maxTokens: 100_000 })
+	 * ```
+	 *
+	 * @default undefined (no limit)
+	 */
+	maxTokens?: number
+
 	/**
 	 * Whether to strip HTML tags from Markdown files.
 	 *
@@ -97,6 +375,146 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 */
 	stripHTML?: boolean
 
+	/**
+	 * Renderers of the Vue components used in the markdown, by the name of the component.
+	 *
+	 * ---
+	 *
+	 * Components are rendered before the HTML is stripped (see {@link LlmstxtSettings.stripHTML | `stripHTML`}),
+	 * so their content isn't lost. Both `<ApiTable>` and `<api-table>` match the `ApiTable` renderer.
+	 *
+	 * The components of the VitePress default theme (`Badge`, `VPButton`, `VPLink`, `VPTeamMembers`, etc.)
+	 * and `ClientOnly` are rendered out of the box, set a component to `false` to turn its renderer off.
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({
+	 *     components: {
+	 *         ApiTable: (props) => `See the API reference of \`${props.name}\`.`,
+	 *         Badge: (props, slot) => `[${props.text ?? slot}]`,
+	 *         VPTeamMembers: false,
+	 *     },
+	 * })
+	 * ```
+	 */
+	components?: Record<string, ComponentRenderer | false>
+
+	/**
+	 * Renderers of the VitePress custom containers, by the container type.
+	 *
+	 * ---
+	 *
+	 * Out of the box, `info`, `tip`, `warning`, `danger` and `details` containers become blockquote callouts
+	 * and the tabs of `code-group` containers become code blocks preceded by their labels:
+	 *
+	 * ```markdown
+	 * > **Warning:** This is a dangerous operation.
+	 *
+	 * **config.ts**
+	 *
+	 * ```ts
+	 * export default {}
+	 * ```
+	 * ```
+	 *
+	 * Set a container type to `false` to leave its containers as they are.
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({
+	 *     containers: {
+	 *         danger: (content, title) => `**${(title ?? 'Danger').toUpperCase()}:** ${content}`,
+	 *         details: false,
+	 *     },
+	 * })
+	 * ```
+	 */
+	containers?: Record<string, ContainerRenderer | false>
+
+	/**
+	 * How the code blocks are normalized for LLMs.
+	 *
+	 * ---
+	 *
+	 * The info strings of the code blocks are always reduced to the bare language,
+	 * so the line highlighting (`{1,3}`), the line numbers (`:line-numbers`) and the attributes are removed,
+	 * and the title is moved out of the info string:
+	 *
+	 * ````markdown
+	 * **config.ts**
+	 *
+	 * ```ts
+	 * export default {}
+	 * ```
+	 * ````
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({ codeBlocks: { title: 'comment', annotations: false } })
+	 * ```
+	 */
+	codeBlocks?: {
+		/**
+		 * How the titles of the code blocks are rendered.
+		 *
+		 * @default 'label'
+		 */
+		title?: CodeBlockTitleMode
+
+		/**
+		 * Whether to apply the VitePress annotations of the code blocks, including the imported snippets.
+		 *
+		 * The lines marked as removed (`// [!code --]`) are dropped, so they aren't mistaken for the current code,
+		 * and the markers of the other annotations (`++`, `focus`, `highlight`, `warning`, `error`, etc.)
+		 * are removed from their lines. Set to `false` to keep the code as written.
+		 *
+		 * @see https://vitepress.dev/guide/markdown#colored-diffs-in-code-blocks
+		 *
+		 * @default true
+		 */
+		annotations?: boolean
+	}
+
+	/**
+	 * How images are rendered for text-only models, separately for `llms-full.txt` and the LLM-friendly pages.
+	 *
+	 * ---
+	 *
+	 * A caption is a paragraph right after an image that consists of a single emphasis:
+	 *
+	 * ```markdown
+	 * ![Request flow](./images/flow.svg)
+	 *
+	 * *Figure 1: How a request travels through the system*
+	 * ```
+	 *
+	 * With `'drop'`, only the captions starting with `Figure` or `Fig.` are removed with the images,
+	 * other emphasized paragraphs are kept.
+	 *
+	 * Unless both are `'keep'`, images without an alt text are reported at the end of the build
+	 * (see {@link LlmstxtSettings.strict | `strict`}).
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({ images: { llmsFullTxt: 'placeholder', pages: 'keep' } })
+	 * ```
+	 */
+	images?: {
+		/**
+		 * How images are rendered in `llms-full.txt`.
+		 *
+		 * @default 'keep'
+		 */
+		llmsFullTxt?: ImagesMode
+
+		/**
+		 * How images are rendered in the LLM-friendly version of each page.
+		 *
+		 * @default 'keep'
+		 */
+		pages?: ImagesMode
+	}
+
 	/**
 	 * Whether to insert invisible text with a reference to LLM-Friendly documentation for LLMs on every page.
 	 *
@@ -107,7 +525,7 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 * It inserts text on each page that is invisible to humans but visible to machines (thanks to the CSS property `display: none`), in simple sections it looks like this:
 	 *
 	 * ```plaintext
-	 * Are you an LLM? You can read better optimized documentation at /guide/what-is-vitepress.md for this page in Markdown format
+	 * Are you an LLM? You can read better optimized documentation at /guide/what-is-vitepress.md for this page in Markdown format (~1.2K tokens)
 	 * ```
 	 *
 	 * On the main page it will look like this:
@@ -120,6 +538,48 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 */
 	injectLLMHint?: boolean
 
+	// spell-checker:disable
+	/**
+	 * Custom text of the hint inserted by {@link LlmstxtSettings.injectLLMHint | `injectLLMHint`}.
+	 *
+	 * ---
+	 *
+	 * A template with the following variables:
+	 *
+	 * - `{url}`: The URL of the LLM-friendly version of the current page, e.g. `/guide/getting-started.md`
+	 * - `{llmsTxt}`: The URL of `llms.txt` (of the locale of the page on multilingual sites)
+	 * - `{llmsFullTxt}`: The URL of `llms-full.txt` (of the locale of the page on multilingual sites)
+	 * - `{tokens}`: The approximate token count of the page, e.g. `1.2K`
+	 *
+	 * Can also be a function that receives the page and returns the template,
+	 * or an object with a template (or a function) for each locale key of the VitePress `locales` config,
+	 * `root` being the key of the root locale. Pages of locales missing from the object get the default hint.
+	 *
+	 * If the resulting text is empty, no hint is inserted on the page.
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({
+	 *     llmHint: {
+	 *         root: 'Are you an LLM? Read {url} (~{tokens} tokens) instead',
+	 *         fr: 'Êtes-vous un LLM ? Lisez {url} (~{tokens} tokens) à la place',
+	 *     },
+	 * })
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({
+	 *     llmHint: ({ isMainPage, frontmatter }) =>
+	 *         isMainPage ? 'Are you an LLM? Start with {llmsTxt}' : frontmatter.layout !== 'home' ? 'Are you an LLM? Read {url}' : undefined,
+	 * })
+	 * ```
+	 *
+	 * @default 'Are you an LLM? You can read better optimized documentation at {url} for this page in Markdown format (~{tokens} tokens)'
+	 */
+	llmHint?: LLMHint | Record<string, LLMHint>
+	// spell-checker:enable
+
 	/**
 	 * The directory from which files will be processed.
 	 *
@@ -139,6 +599,22 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 */
 	workDir?: string
 
+	/**
+	 * Whether to generate separate files for each locale of a multilingual site.
+	 *
+	 * ---
+	 *
+	 * If the VitePress config has [`locales`](https://vitepress.dev/guide/i18n), `llms.txt` and `llms-full.txt`
+	 * are generated for each locale in its directory (e.g. `/fr/llms.txt`) using the `title`, `description`
+	 * and `sidebar` of the locale. The root files only contain the pages of the root locale
+	 * and `llms.txt` links to the files of the other locales.
+	 *
+	 * Locales are ignored if {@link LlmstxtSettings.workDir | `workDir`} points to a single locale directory.
+	 *
+	 * @default true
+	 */
+	locales?: boolean
+
 	/**
 	 * An array of file path patterns to be ignored during processing.
 	 *
@@ -161,6 +637,53 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 */
 	ignoreFiles?: string[]
 
+	/**
+	 * Pages that are secondary and can be skipped when the context is short.
+	 *
+	 * ---
+	 *
+	 * Following the [llms.txt](https://llmstxt.org/) specification, these pages are listed
+	 * under the `## Optional` section of `llms.txt` and placed last in (or omitted from) `llms-full.txt`.
+	 *
+	 * A page can also be marked as optional with `llms: { optional: true }` in its frontmatter.
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({
+	 *     optionalPages: {
+	 *         // Pages matching these patterns (relative to `workDir`) are optional
+	 *         files: ['changelog.md', 'blog/**'],
+	 *         // So are all pages of the sidebar groups with these names
+	 *         sidebarGroups: ['Migration Guides'],
+	 *         // Leave them out of `llms-full.txt` entirely
+	 *         llmsFullTxt: 'omit',
+	 *     },
+	 * })
+	 * ```
+	 */
+	optionalPages?: {
+		/**
+		 * Patterns of the paths of optional pages relative to `workDir` (with VitePress rewrites applied).
+		 *
+		 * @default []
+		 */
+		files?: string[]
+
+		/**
+		 * Names of the sidebar groups whose pages are optional.
+		 *
+		 * @default []
+		 */
+		sidebarGroups?: string[]
+
+		/**
+		 * Whether optional pages are placed `last` in `llms-full.txt` or `omit`ted from it.
+		 *
+		 * @default 'last'
+		 */
+		llmsFullTxt?: 'last' | 'omit'
+	}
+
 	/**
 	 * Whether to exclude unnecessary files (such as blog, sponsor or team information) that LLM does not need at all to save tokens ♻️
 	 *
@@ -217,6 +740,8 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 * - `{description}`: The description.
 	 * - `{details}`: The details.
 	 * - `{toc}`: An automatically generated **T**able **O**f **C**ontents.
+	 * - `{bundles}`: Links to the `llms-full` files of each sidebar section, if {@link LlmstxtSettings.generateLLMsFullTxtPerSection | enabled}.
+	 * - `{locales}`: Links to the `llms.txt` files of the other {@link LlmstxtSettings.locales | locales}.
 	 *
 	 * You can also add custom variables using the {@link LlmstxtSettings.customTemplateVariables | `customTemplateVariables`} parameter
 	 *
@@ -230,7 +755,7 @@ export interface LlmstxtSettings extends TemplateVariables {
 	 *
 	 * ## Table of Contents
 	 *
-	 * {toc}
+	 * {toc}{bundles}{locales}
 	 * ```
 	 */
 	// spell-checker:enable
@@ -283,6 +808,85 @@ export interface LlmstxtSettings extends TemplateVariables {
 				configSidebar: DefaultTheme.Sidebar | undefined,
 		  ) => DefaultTheme.Sidebar | undefined | Promise<DefaultTheme.Sidebar | undefined>)
 
+	/**
+	 * Whether to cache prepared Markdown files on disk between builds.
+	 *
+	 * ---
+	 *
+	 * Only the pages that changed since the previous build (or whose included files changed) are processed again,
+	 * which can significantly speed up builds of large websites.
+	 *
+	 * The cache is discarded whenever the plugin version or its settings change.
+	 *
+	 * @default false
+	 */
+	cache?: boolean
+
+	/**
+	 * The directory where the {@link LlmstxtSettings.cache | `cache`} is stored, relative to the VitePress root.
+	 *
+	 * @default `${vite.cacheDir}/vitepress-plugin-llms` (usually `.vitepress/cache/vitepress-plugin-llms`)
+	 */
+	cacheDir?: string
+
+	/**
+	 * Whether to fail the build if problems are found in the documentation.
+	 *
+	 * ---
+	 *
+	 * At the end of the build, the plugin reports sidebar links that don't lead to any page,
+	 * pages without a title, pages that end up with the same output path after rewrites,
+	 * includes or snippets that can't be resolved and links to pages that don't exist.
+	 *
+	 * Enable this option to make the build fail instead of only printing the report, e.g. in CI:
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({ strict: !!process.env.CI })
+	 * ```
+	 *
+	 * @default false
+	 */
+	strict?: boolean
+
+	/**
+	 * The maximum nesting depth of `<!--@include: -->`, a page including a file being depth 1.
+	 *
+	 * ---
+	 *
+	 * The build fails with an error naming the chain of includes if it's exceeded,
+	 * and also if a file ends up including itself, directly or through other files.
+	 *
+	 * @default 10
+	 */
+	maxIncludeDepth?: number
+
+	/**
+	 * Whether to mark the content included from other files with its source, to trace passages of the LLM docs back to it.
+	 *
+	 * ---
+	 *
+	 * The content of `<!--@include: -->` and `<<<` snippets is wrapped with markers containing the path
+	 * of the included file (relative to the source directory) and the included line range.
+	 * The markers are kept even if {@link LlmstxtSettings.stripHTML | `stripHTML`} is enabled.
+	 *
+	 * `llms-sources.json` is generated as well, mapping the line ranges of each output to the included files:
+	 *
+	 * ```json
+	 * {
+	 *     "llms-full.txt": [{ "lines": [42, 60], "source": "parts/intro.md", "sourceLines": [1, 19] }]
+	 * }
+	 * ```
+	 *
+	 * @example
+	 * ```typescript
+	 * llmstxt({ provenance: 'comment' })
+	 * ```
+	 *
+	 * @default false
+	 */
+	provenance?: ProvenanceMode | false
+
 	/**
 	 * 🧪 Experimental features that may change in future versions.
 	 *
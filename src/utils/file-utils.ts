@@ -1,4 +1,7 @@
+import { execFile } from 'node:child_process'
+import fs from 'node:fs/promises'
 import path from 'node:path'
+import { minimatch } from 'minimatch'
 
 // #region Path utilities
 /**
@@ -99,3 +102,95 @@ export function getDirectoriesAtDepths(
 		})
 }
 // #endregion
+
+// #region File discovery
+/**
+ * Recursively finds all markdown files in a directory, the way VitePress collects its pages.
+ *
+ * Hidden directories and `node_modules` are always skipped.
+ *
+ * @param dir - The directory to search.
+ * @param exclude - Glob patterns of files to skip, relative to `dir` (like VitePress `srcExclude`).
+ * @returns The absolute paths of the markdown files, sorted alphabetically.
+ */
+export async function findMarkdownFiles(dir: string, exclude: string[] = []): Promise<string[]> {
+	const root = path.resolve(dir)
+	const files: string[] = []
+
+	const walk = async (currentDir: string): Promise<void> => {
+		for (const entry of await fs.readdir(currentDir, { withFileTypes: true })) {
+			if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+				continue
+			}
+
+			const entryPath = path.join(currentDir, entry.name)
+
+			if (entry.isDirectory()) {
+				await walk(entryPath)
+			} else if (
+				entry.name.endsWith('.md') &&
+				!exclude.some((pattern) => minimatch(transformToPosixPath(path.relative(root, entryPath)), pattern))
+			) {
+				files.push(entryPath)
+			}
+		}
+	}
+
+	await walk(root)
+
+	return files.sort()
+}
+// #endregion
+
+// #region Git
+/** The maximum number of `git` processes running at the same time, a site can have thousands of pages. */
+const maxGitProcesses = 8
+
+/** The number of running `git` processes. */
+let runningGitProcesses = 0
+
+/** The calls waiting for a `git` process to end. */
+const pendingGitProcesses: (() => void)[] = []
+
+/**
+ * Runs `git`, waiting while {@link maxGitProcesses} processes are already running.
+ *
+ * @param args - The arguments.
+ * @param cwd - The working directory.
+ * @returns The output, or `undefined` if the command failed.
+ */
+async function runGit(args: string[], cwd: string): Promise<string | undefined> {
+	if (runningGitProcesses < maxGitProcesses) {
+		runningGitProcesses++
+	} else {
+		// The slot is handed over by the process that ends
+		await new Promise<void>((resolve) => pendingGitProcesses.push(resolve))
+	}
+
+	try {
+		return await new Promise((resolve) => {
+			execFile('git', args, { cwd }, (error, stdout) => resolve(error ? undefined : stdout))
+		})
+	} finally {
+		const next = pendingGitProcesses.shift()
+		if (next) {
+			next()
+		} else {
+			runningGitProcesses--
+		}
+	}
+}
+
+/**
+ * Gets the timestamp of the last commit that changed a file, the way VitePress does for `lastUpdated`.
+ *
+ * @param file - The absolute path to the file.
+ * @returns The timestamp in milliseconds, or `undefined` if the file isn't committed or git isn't available.
+ */
+export async function getGitTimestamp(file: string): Promise<number | undefined> {
+	const stdout = await runGit(['log', '-1', '--pretty=%at', '--', path.basename(file)], path.dirname(file))
+	const timestamp = Number.parseInt(stdout ?? '', 10)
+
+	return Number.isNaN(timestamp) ? undefined : timestamp * 1000
+}
+// #endregion
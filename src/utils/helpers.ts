@@ -11,3 +11,17 @@ import prettyBytes from 'pretty-bytes'
  */
 export const getHumanReadableSizeOf = (string: string): string =>
 	prettyBytes(Buffer.byteLength(string, 'utf8'))
+
+/**
+ * Converts a string into a URL and file name friendly slug.
+ *
+ * @param string - The string to convert.
+ * @returns The slug, e.g. `getting-started` for `Getting Started!`.
+ */
+export const slugify = (string: string): string =>
+	string
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.replace(/^-+|-+$/g, '')
@@ -1,6 +1,27 @@
 import type { GrayMatterFile, Input } from 'gray-matter'
 
 import markdownTitle from 'markdown-title'
+import type { LLMsPageOptions } from '@/types'
+
+/**
+ * Checks whether a page is left out of the LLM docs with `llms: false` in its frontmatter.
+ *
+ * @param file - The markdown file.
+ * @returns `true` if the page is excluded.
+ */
+export const isExcludedFromLLMs = (file: GrayMatterFile<Input>): boolean => file.data?.['llms'] === false
+
+/**
+ * Reads the options of a page from the `llms` key of its frontmatter.
+ *
+ * @param file - The markdown file.
+ * @returns The options, empty if there are none.
+ */
+export function getLLMsPageOptions(file: GrayMatterFile<Input>): LLMsPageOptions {
+	const options = file.data?.['llms']
+
+	return options && typeof options === 'object' ? options : {}
+}
 
 /**
  * Extracts the title from a markdown file's frontmatter or first heading.
@@ -9,5 +30,20 @@ import markdownTitle from 'markdown-title'
  * @returns The extracted title, or `undefined` if no title is found.
  */
 export function extractTitle(file: GrayMatterFile<Input>): string | undefined {
-	return file.data?.['title'] || file.data?.['titleTemplate'] || markdownTitle(file.content)
+	return (
+		getLLMsPageOptions(file).title ||
+		file.data?.['title'] ||
+		file.data?.['titleTemplate'] ||
+		markdownTitle(file.content)
+	)
+}
+
+/**
+ * Extracts the description from a markdown file's frontmatter.
+ *
+ * @param file - The markdown file to extract the description from.
+ * @returns The description, or `undefined` if there is none.
+ */
+export function extractDescription(file: GrayMatterFile<Input>): string | undefined {
+	return getLLMsPageOptions(file).description || file.data?.['description']
 }
@@ -0,0 +1,105 @@
+import type { ProvenanceMode } from '@/types'
+
+/** The name of the file mapping the lines of the outputs to their sources. */
+export const provenanceMapFileName = 'llms-sources.json'
+
+/** Matches a provenance marker in either of the {@link ProvenanceMode | modes}. */
+const markerRE = /^(?:<!--\s*)?(end )?source: (.+?)(?:#L(\d+)-L(\d+))?(?:\s*-->)?$/
+
+/** A marker at the start or the end of the content included from another file. */
+export interface ProvenanceMarker {
+	/** Whether the marker closes the included content. */
+	end: boolean
+
+	/** The path of the included file, relative to the source directory. */
+	source: string
+
+	/** The first and the last line of the included content in the source file, only on opening markers. */
+	lines?: [number, number] | undefined
+}
+
+/** The content of an output that comes from another file. */
+export interface ProvenanceRange {
+	/** The first and the last line of the content in the output. */
+	lines: [number, number]
+
+	/** The path of the source file, relative to the source directory. */
+	source: string
+
+	/** The first and the last line of the content in the source file. */
+	sourceLines?: [number, number] | undefined
+}
+
+/**
+ * Formats a provenance marker.
+ *
+ * @param marker - The marker.
+ * @param mode - The marker format.
+ * @returns The marker, e.g. `<!-- source: parts/intro.md#L1-L12 -->`.
+ */
+export function formatProvenanceMarker(
+	{ end, source, lines }: ProvenanceMarker,
+	mode: ProvenanceMode,
+): string {
+	const text = `${end ? 'end ' : ''}source: ${source}${!end && lines ? `#L${lines[0]}-L${lines[1]}` : ''}`
+
+	return mode === 'comment' ? `<!-- ${text} -->` : text
+}
+
+/**
+ * Parses a provenance marker.
+ *
+ * @param text - A line of the output or the value of an HTML node.
+ * @returns The marker, or `undefined` if the text isn't one.
+ */
+export function parseProvenanceMarker(text: string): ProvenanceMarker | undefined {
+	const [, end, source, start, last] = text.trim().match(markerRE) ?? []
+	if (!source) return undefined
+
+	return { end: !!end, source, lines: start && last ? [Number(start), Number(last)] : undefined }
+}
+
+/**
+ * Maps the line ranges of the outputs to the files their content was included from.
+ *
+ * The ranges of nested includes are contained in the range of the outer include.
+ *
+ * @param outputs - The contents of the outputs by their paths.
+ * @returns The ranges by the path of the output, outputs without included content are left out.
+ */
+export function generateProvenanceMap(outputs: Map<string, string>): Record<string, ProvenanceRange[]> {
+	const map: Record<string, ProvenanceRange[]> = {}
+
+	for (const [outputPath, content] of outputs) {
+		const lines = content.split('\n')
+		const ranges: ProvenanceRange[] = []
+		const stack: { marker: ProvenanceMarker; start: number }[] = []
+
+		for (const [index, line] of lines.entries()) {
+			const marker = parseProvenanceMarker(line)
+			if (!marker) continue
+
+			if (!marker.end) {
+				stack.push({ marker, start: index + 1 })
+				continue
+			}
+
+			const frameIndex = stack.findLastIndex((frame) => frame.marker.source === marker.source)
+			const [frame] = frameIndex === -1 ? [] : stack.splice(frameIndex)
+			if (!frame) continue
+
+			// Leave out the blank lines around the content, the line numbers start at 1
+			let [start, end] = [frame.start, index - 1]
+			while (start <= end && !lines[start]?.trim()) start++
+			while (end >= start && !lines[end]?.trim()) end--
+
+			ranges.push({ lines: [start + 1, end + 1], source: marker.source, sourceLines: frame.marker.lines })
+		}
+
+		if (ranges.length) {
+			map[outputPath] = ranges.sort((a, b) => a.lines[0] - b.lines[0])
+		}
+	}
+
+	return map
+}
@@ -1,7 +1,9 @@
 import type { GrayMatterFile, Input } from 'gray-matter'
+import { approximateTokenSize } from 'tokenx'
 import type { LinksExtension, VitePressConfig } from '@/internal-types'
 import type { LlmstxtSettings } from '@/types'
 import { stripExtPosix, transformToPosixPath } from '@/utils/file-utils'
+import { extractDescription, getLLMsPageOptions } from '@/utils/markdown'
 
 /**
  * Creates a regular expression to match a specific template variable in the format `{key}`.
@@ -109,25 +111,70 @@ export interface GenerateMetadataOptions {
 	 * {@link VitePressConfig.base}
 	 */
 	base?: VitePressConfig['base']
+
+	/** The title of the page. */
+	title?: string
+
+	/** The timestamp (in milliseconds) of the last change of the page. */
+	lastUpdated?: number
+}
+
+/** Metadata of a page, added to its frontmatter. */
+export interface Metadata {
+	/** The title of the page. */
+	title?: string
+
+	/** The URL of the LLM-friendly version of the page. */
+	url: string
+
+	/** The description from the frontmatter. */
+	description?: string
+
+	/** The approximate token count of the page content. */
+	tokens: number
+
+	/** The date of the last change of the page in ISO format. */
+	lastUpdated?: string
 }
 
 /**
  * Generates metadata for markdown files to provide additional context for LLMs.
  *
+ * `lastUpdated` is taken from the frontmatter if it's set there (`lastUpdated: false` omits it),
+ * the same way VitePress does it. Pages with `llms.page: false` in the frontmatter are linked to their HTML version.
+ *
  * @param sourceFile - Parsed markdown file with frontmatter using gray-matter.
  * @param options - Options for generating metadata.
  * @returns Object containing metadata properties for the file.
  *
  * @example
- * generateMetadata(preparedFile, { domain: 'https://example.com', filePath: 'docs/guide' })
- * // Returns { url: 'https://example.com/docs/guide.md', description: 'A guide' }
+ * generateMetadata(preparedFile, { domain: 'https://example.com', filePath: 'docs/guide', title: 'Guide' })
+ * // Returns { title: 'Guide', url: 'https://example.com/docs/guide.md', description: 'A guide', tokens: 1234 }
  */
 export function generateMetadata(
 	sourceFile: GrayMatterFile<Input>,
-	{ domain, filePath, linksExtension, base }: GenerateMetadataOptions,
-): { url: string; description?: string } {
+	{ domain, filePath, linksExtension, base, title, lastUpdated }: GenerateMetadataOptions,
+): Metadata {
+	const frontmatterLastUpdated = sourceFile.data?.['lastUpdated']
+	const lastUpdatedDate =
+		frontmatterLastUpdated instanceof Date
+			? frontmatterLastUpdated
+			: frontmatterLastUpdated !== false && lastUpdated
+				? new Date(lastUpdated)
+				: undefined
+
+	const description = extractDescription(sourceFile)
+
 	return {
-		url: generateLink(stripExtPosix(filePath), domain, linksExtension ?? '.md', base),
-		...(sourceFile.data?.['description'] && { description: sourceFile.data['description'] }),
+		...(title && { title }),
+		url: generateLink(
+			stripExtPosix(filePath),
+			domain,
+			getLLMsPageOptions(sourceFile).page === false ? '.html' : (linksExtension ?? '.md'),
+			base,
+		),
+		...(description && { description }),
+		tokens: approximateTokenSize(sourceFile.content),
+		...(lastUpdatedDate && { lastUpdated: lastUpdatedDate.toISOString() }),
 	}
 }
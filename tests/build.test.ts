@@ -0,0 +1,194 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from 'bun:test'
+import path from 'node:path'
+import mockedFs, { mockFiles } from './mocks/fs'
+import mockedLogger from './mocks/utils/logger'
+
+const { readdir, readFile, writeFile } = mockedFs.default
+
+mock.module('node:fs/promises', () => mockedFs)
+mock.module('@/utils/logger', () => mockedLogger)
+
+// @ts-ignore
+import { buildLLMDocs } from '@/build'
+
+const srcDir = path.resolve('docs')
+
+describe('buildLLMDocs', () => {
+	beforeEach(() => {
+		const files = {
+			'index.md': '---\ntitle: Some cool tool\ndescription: Blazing fast frontend tool\n---\n',
+			'guide/getting-started.md': '# Getting started\n\nInstall the tool.',
+			'guide/.drafts/secret.md': '# Secret',
+			'drafts/todo.md': '# TODO',
+			'node_modules/some-package/README.md': '# Some package',
+		}
+
+		mockFiles(srcDir, files)
+		writeFile.mockReset()
+	})
+
+	afterAll(() => {
+		readdir.mockReset()
+		readFile.mockReset()
+		writeFile.mockReset()
+	})
+
+	it('generates the files without writing them', async () => {
+		const outputs = await buildLLMDocs({ srcDir, vitepressConfig: { srcExclude: ['drafts/**'] } })
+
+		expect(Array.from(outputs.keys()).sort()).toEqual([
+			'guide/getting-started.md',
+			'llms-full.txt',
+			'llms.txt',
+		])
+		expect(outputs.get('llms.txt')).toContain('# Some cool tool')
+		expect(outputs.get('llms.txt')).toContain('- [Getting started](/guide/getting-started.md)')
+		expect(outputs.get('llms-full.txt')).toContain('Install the tool.')
+		expect(writeFile).not.toHaveBeenCalled()
+	})
+
+	it('writes the files to the output directory', async () => {
+		const outDir = path.resolve('dist')
+		await buildLLMDocs({ srcDir, outDir, settings: { generateLLMFriendlyDocsForEachPage: false } })
+
+		expect(writeFile.mock.calls.map(([file]) => file).sort()).toEqual([
+			path.resolve(outDir, 'llms-full.txt'),
+			path.resolve(outDir, 'llms.txt'),
+		])
+	})
+
+	it('honors the `llms` frontmatter of pages', async () => {
+		mockFiles(srcDir, {
+			'index.md': '---\ntitle: Some cool tool\n---\n',
+			'guide/getting-started.md':
+				'---\nllms:\n  title: Start here\n  description: Read this first\n---\n# Getting started',
+			'guide/changelog.md': '---\nllms:\n  fullTxt: false\n  priority: -1\n---\n# Changelog',
+			'guide/api.md': '---\nllms:\n  page: false\n---\n# API',
+			'guide/internal.md': '---\nllms: false\n---\n# Internal',
+		})
+
+		const outputs = await buildLLMDocs({ srcDir })
+
+		expect(Array.from(outputs.keys()).sort()).toEqual([
+			'guide/changelog.md',
+			'guide/getting-started.md',
+			'llms-full.txt',
+			'llms.txt',
+		])
+		expect(outputs.get('llms.txt')).toContain(
+			'- [API](/guide/api.html)\n- [Start here](/guide/getting-started.md): Read this first\n- [Changelog](/guide/changelog.md)\n',
+		)
+		expect(outputs.get('llms-full.txt')).toContain('url: /guide/api.html')
+		expect(outputs.get('llms-full.txt')).toContain('title: Start here')
+		expect(outputs.get('llms-full.txt')).not.toContain('# Changelog')
+		expect(outputs.get('llms-full.txt')).not.toContain('Internal')
+	})
+
+	it('marks pages as optional', async () => {
+		mockFiles(srcDir, {
+			'index.md': '---\ntitle: Some cool tool\n---\n',
+			'guide/getting-started.md': '# Getting started',
+			'guide/faq.md': '---\nllms:\n  optional: true\n---\n# FAQ',
+			'changelog.md': '# Changelog',
+			'migration/v2.md': '# Migrating to v2',
+		})
+
+		const outputs = await buildLLMDocs({
+			srcDir,
+			settings: {
+				optionalPages: { files: ['changelog.md'], sidebarGroups: ['Migration'], llmsFullTxt: 'omit' },
+			},
+			vitepressConfig: {
+				themeConfig: {
+					sidebar: [
+						{ text: 'Guide', items: [{ text: 'Getting started', link: '/guide/getting-started' }] },
+						{ text: 'Migration', items: [{ text: 'Migrating to v2', link: '/migration/v2' }] },
+					],
+				},
+			},
+		})
+
+		expect(outputs.get('llms.txt')).toContain(
+			'### Guide\n\n- [Getting started](/guide/getting-started.md)\n\n## Optional\n\n- [Changelog](/changelog.md)\n- [FAQ](/guide/faq.md)\n- [Migrating to v2](/migration/v2.md)\n',
+		)
+		expect(outputs.get('llms-full.txt')).toContain('# Getting started')
+		expect(outputs.get('llms-full.txt')).not.toContain('# Changelog')
+		expect(outputs.get('llms-full.txt')).not.toContain('# FAQ')
+		expect(outputs.get('llms-full.txt')).not.toContain('# Migrating to v2')
+	})
+
+	it('rewrites internal links to the LLM-friendly pages', async () => {
+		mockFiles(srcDir, {
+			'index.md': '---\ntitle: Some cool tool\n---\n',
+			'guide/getting-started.md':
+				'# Getting started\n\nSee [the config](./config#options) and [the FAQ](/faq).',
+			'guide/config.md': '# Config',
+		})
+		mockedLogger.default.info.mockClear()
+
+		const outputs = await buildLLMDocs({
+			srcDir,
+			settings: { domain: 'https://example.com' },
+			vitepressConfig: { base: '/docs/' },
+		})
+
+		expect(outputs.get('guide/getting-started.md')).toContain(
+			'See [the config](https://example.com/docs/guide/config.md#options) and [the FAQ](/faq).',
+		)
+		expect(mockedLogger.default.info.mock.calls.map(([line]) => line)).toContainEqual(
+			expect.stringContaining('/faq'),
+		)
+	})
+
+	it('links to the HTML version of pages without an LLM-friendly version', async () => {
+		mockFiles(srcDir, {
+			'index.md': '---\ntitle: Some cool tool\n---\n',
+			'guide/getting-started.md':
+				'# Getting started\n\nSee [the config](./config), [the API](/api) and [the changelog](/changelog).',
+			'guide/config.md': '---\nllms:\n  page: false\n---\n# Config',
+			'api.md': '# API',
+			'changelog.md': '---\nllms: false\n---\n# Changelog',
+		})
+
+		const outputs = await buildLLMDocs({ srcDir })
+
+		expect(outputs.get('guide/getting-started.md')).toContain(
+			'See [the config](/guide/config.html), [the API](/api.md) and [the changelog](/changelog).',
+		)
+		expect(outputs.has('changelog.md')).toBeFalse()
+		expect(outputs.get('llms.txt')).toContain('- [Config](/guide/config.html)')
+	})
+
+	it('renders images separately for `llms-full.txt` and the pages', async () => {
+		mockFiles(srcDir, {
+			'index.md': '---\ntitle: Some cool tool\n---\n',
+			'guide/architecture.md': '# Architecture\n\n![Request flow](/flow.svg)\n\n![](/untitled.svg)',
+		})
+		mockedLogger.default.info.mockClear()
+
+		const outputs = await buildLLMDocs({ srcDir, settings: { images: { llmsFullTxt: 'placeholder' } } })
+
+		expect(outputs.get('llms-full.txt')).toContain('[Image: Request flow]\n\n[Image]')
+		expect(outputs.get('guide/architecture.md')).toContain('![Request flow](/flow.svg)\n\n![](/untitled.svg)')
+		expect(mockedLogger.default.info.mock.calls.map(([line]) => line)).toContainEqual(
+			expect.stringContaining('/untitled.svg'),
+		)
+	})
+
+	it('fails in strict mode if there are problems in the documentation', async () => {
+		const vitepressConfig = {
+			themeConfig: { sidebar: [{ text: 'Missing', link: '/guide/missing' }] },
+		}
+
+		expect(await buildLLMDocs({ srcDir, vitepressConfig })).toBeInstanceOf(Map)
+		await expect(buildLLMDocs({ srcDir, settings: { strict: true }, vitepressConfig })).rejects.toThrow(
+			'Found 1 problem(s) in the documentation',
+		)
+	})
+
+	it('respects the base from the VitePress config', async () => {
+		const outputs = await buildLLMDocs({ srcDir, vitepressConfig: { base: '/awesome/' } })
+
+		expect(outputs.get('llms.txt')).toContain('- [Getting started](/awesome/guide/getting-started.md)')
+	})
+})
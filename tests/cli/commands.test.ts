@@ -0,0 +1,71 @@
+import { afterAll, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import path from 'node:path'
+import mockedFs, { mockFiles } from '../mocks/fs'
+import mockedLogger from '../mocks/utils/logger'
+
+const { readdir, readFile } = mockedFs.default
+
+mock.module('node:fs/promises', () => mockedFs)
+mock.module('@/utils/logger', () => mockedLogger)
+
+// @ts-ignore
+import { preview, stats } from '@/cli/commands'
+
+const srcDir = path.resolve('docs')
+
+describe('CLI commands', () => {
+	const consoleLog = spyOn(console, 'log').mockImplementation(() => {})
+
+	/** Everything printed to the console, without colors. */
+	const output = () => consoleLog.mock.calls.map((args) => Bun.stripANSI(String(args[0]))).join('\n')
+
+	beforeEach(() => {
+		consoleLog.mockClear()
+		mockFiles(srcDir, {
+			'index.md': '---\ntitle: Some cool tool\n---\n',
+			'guide/index.md': '# Guide\n\nRead this first.',
+			'guide/getting-started.md': '# Getting started\n\nInstall the tool.',
+		})
+	})
+
+	afterAll(() => {
+		consoleLog.mockRestore()
+		readdir.mockReset()
+		readFile.mockReset()
+	})
+
+	describe('stats', () => {
+		it('prints the token count and size of each page and the bundles', async () => {
+			await stats({ srcDir })
+
+			expect(output()).toMatch(/^guide\.md +\d+ {2}\d+ B$/m)
+			expect(output()).toMatch(/^guide\/getting-started\.md +\d+ {2}\d+ B$/m)
+			expect(output()).toMatch(/^llms\.txt +\d+ {2}\d+ B$/m)
+			expect(output()).toMatch(/^llms-full\.txt +\d+ {2}\d+ B$/m)
+		})
+	})
+
+	describe('preview', () => {
+		it.each([
+			'/guide/getting-started',
+			'guide/getting-started.md',
+			'/awesome/guide/getting-started.html',
+			path.join('docs', 'guide', 'getting-started.md'),
+		])('prints the processed markdown of %s', async (page) => {
+			expect(await preview({ srcDir, vitepressConfig: { base: '/awesome/' } }, page)).toBe(true)
+			expect(output()).toBe(
+				'---\ntitle: Getting started\nurl: /awesome/guide/getting-started.md\ntokens: 10\n---\n# Getting started\n\nInstall the tool.\n',
+			)
+		})
+
+		it('resolves the index page of a directory', async () => {
+			expect(await preview({ srcDir }, '/guide/')).toBe(true)
+			expect(output()).toContain('Read this first.')
+		})
+
+		it('returns false for unknown pages', async () => {
+			expect(await preview({ srcDir }, '/nope')).toBe(false)
+			expect(consoleLog).not.toHaveBeenCalled()
+		})
+	})
+})
@@ -2,9 +2,11 @@ import { describe, expect, it } from 'bun:test'
 
 import {
 	generateLLMsFullTxt,
+	generateLLMsFullTxtIndex,
+	splitLLMsFullTxt,
 	// @ts-ignore
 } from '@/generator/llms-full-txt'
-import { preparedFilesSample, sampleDomain } from '../resources'
+import { preparedFilesSample, sampleDomain, sampleVitePressSidebar } from '../resources'
 
 describe('generateLLMsFullTxt', () => {
 	it('generates a `llms-full.txt` file', async () => {
@@ -19,3 +21,85 @@ describe('generateLLMsFullTxt', () => {
 		).toMatchSnapshot()
 	})
 })
+
+describe('ordering by sidebar', () => {
+	const files = preparedFilesSample.slice(1)
+
+	/** Extracts the page URLs and the headings in the order they appear. */
+	const outline = (content: string) =>
+		content
+			.match(/^url: .+$|^# (?:Test Section|Quickstart Section|Other)$/gm)
+			?.map((line) => line.replace('url: ', ''))
+
+	it('orders the pages by sidebar and appends the remaining ones', async () => {
+		const sidebar = [...sampleVitePressSidebar].reverse()
+
+		expect(outline(await generateLLMsFullTxt(files, { sidebar }))).toEqual([
+			'/test/quickstart.md',
+			'/test/getting-started.md',
+			'/test/other.md',
+		])
+	})
+
+	it('inserts the names of the sidebar groups as headings', async () => {
+		expect(
+			outline(await generateLLMsFullTxt(files, { sidebar: sampleVitePressSidebar, sectionHeadings: true })),
+		).toEqual([
+			'# Test Section',
+			'/test/getting-started.md',
+			'# Quickstart Section',
+			'/test/quickstart.md',
+			'# Other',
+			'/test/other.md',
+		])
+	})
+
+	it('places the optional pages last', async () => {
+		const optionalFiles = files.filter((file) => file.path === 'test/getting-started.md')
+
+		expect(outline(await generateLLMsFullTxt(files, { optionalFiles }))).toEqual([
+			'/test/quickstart.md',
+			'/test/other.md',
+			'/test/getting-started.md',
+		])
+	})
+})
+
+describe('splitLLMsFullTxt', () => {
+	const files = preparedFilesSample.slice(1)
+
+	it('returns a single part if everything fits', async () => {
+		const parts = await splitLLMsFullTxt(files, 100_000, {})
+
+		expect(parts).toHaveLength(1)
+		expect(parts[0]?.content).toBe(await generateLLMsFullTxt(files, {}))
+	})
+
+	it('splits the content along page boundaries', async () => {
+		const parts = await splitLLMsFullTxt(files, 1, {})
+
+		expect(parts.map((part) => part.files.map((file) => file.path))).toEqual([
+			['test/getting-started.md'],
+			['test/quickstart.md'],
+			['test/other.md'],
+		])
+		expect(parts.map((part) => part.content).join('\n---\n\n')).toBe(await generateLLMsFullTxt(files, {}))
+	})
+
+	it('keeps pages together while they fit', async () => {
+		const [first] = await splitLLMsFullTxt(files, 1, {})
+		const parts = await splitLLMsFullTxt(files, (first?.tokens ?? 0) + 1_000, {})
+
+		expect(parts).toHaveLength(1)
+	})
+})
+
+describe('generateLLMsFullTxtIndex', () => {
+	it('lists the pages and the token count of each part', async () => {
+		const parts = await splitLLMsFullTxt(preparedFilesSample.slice(1, 3), 1, {})
+
+		expect(
+			generateLLMsFullTxtIndex(parts, ['llms-full-1.txt', 'llms-full-2.txt'], { domain: sampleDomain }),
+		).toMatchSnapshot()
+	})
+})
@@ -1,6 +1,12 @@
 import { describe, expect, it } from 'bun:test'
 import type { DefaultTheme } from 'vitepress'
-import { generateTOC, generateTOCLink, isPathMatch, normalizeLinkPath } from '@/generator/toc'
+import {
+	generateTOC,
+	generateTOCLink,
+	groupFilesBySidebarSection,
+	isPathMatch,
+	normalizeLinkPath,
+} from '@/generator/toc'
 import {
 	fooMdSample,
 	outDir,
@@ -34,6 +40,68 @@ describe('generateTOC', () => {
 		)
 	})
 
+	it('appends the token count and size of each page', async () => {
+		expect(await generateTOC(preparedFilesSample.slice(1, 3), { outDir, pageStats: true })).toBe(
+			'- [Getting started](/test/getting-started.md): Instructions on how to get started with the tool (~7 tokens, 35 B)\n- [Quickstart](/test/quickstart.md): Instructions for quick project initialization (~10 tokens, 45 B)\n',
+		)
+	})
+
+	it('lists the optional pages under the `Optional` section', async () => {
+		const files = preparedFilesSample.slice(1)
+		const optionalFiles = files.filter((file) => file.path === 'test/getting-started.md')
+
+		expect(await generateTOC(files, { outDir, sidebarConfig: sampleVitePressSidebar, optionalFiles })).toBe(
+			'### Quickstart Section\n\n- [Quickstart](/test/quickstart.md): Instructions for quick project initialization\n\n### Other\n\n- [Some other section](/test/other.md)\n\n## Optional\n\n- [Getting started](/test/getting-started.md): Instructions on how to get started with the tool\n',
+		)
+	})
+
+	describe('pages that are not in the sidebar', () => {
+		const files = [
+			...preparedFilesSample.slice(1),
+			{ ...fooMdSample, path: 'guides/foo.md' },
+			{ ...fooMdSample, title: 'All guides', path: 'guides.md' },
+			{ ...fooMdSample, title: 'Bar', path: 'api-reference/bar.md' },
+		]
+		const sidebarConfig = [
+			...(sampleVitePressSidebar as DefaultTheme.SidebarItem[]),
+			{ text: 'Other section', items: [{ text: 'Other', link: '/test/other' }] },
+		]
+
+		it('renames the section', async () => {
+			const toc = await generateTOC(files, { outDir, sidebarConfig, otherPages: { title: 'More' } })
+
+			expect(toc).toEndWith(
+				'### More\n\n- [Title](/guides/foo.md)\n- [All guides](/guides.md)\n- [Bar](/api-reference/bar.md)\n',
+			)
+		})
+
+		it('groups the pages by directory', async () => {
+			const toc = await generateTOC(files, { outDir, sidebarConfig, otherPages: { groupBy: 'directory' } })
+
+			expect(toc).toEndWith(
+				'### Other\n\n#### Api reference\n\n- [Bar](/api-reference/bar.md)\n\n#### All guides\n\n- [All guides](/guides.md)\n- [Title](/guides/foo.md)\n',
+			)
+		})
+
+		it('groups the pages by directory without the section heading', async () => {
+			const toc = await generateTOC(files, {
+				outDir,
+				sidebarConfig,
+				otherPages: { groupBy: 'directory', title: false },
+			})
+
+			expect(toc).toEndWith(
+				'- [Some other section](/test/other.md)\n\n### Api reference\n\n- [Bar](/api-reference/bar.md)\n\n### All guides\n\n- [All guides](/guides.md)\n- [Title](/guides/foo.md)\n',
+			)
+		})
+
+		it('drops the pages', async () => {
+			const toc = await generateTOC(files, { outDir, sidebarConfig, otherPages: { groupBy: 'drop' } })
+
+			expect(toc).toEndWith('- [Some other section](/test/other.md)\n\n')
+		})
+	})
+
 	it('organizes TOC based on sidebar configuration', async () => {
 		const files = preparedFilesSample.slice(1)
 		const toc = await generateTOC(files, {
@@ -267,3 +335,30 @@ describe('generateTOC with directoryFilter', () => {
 		expect(result).toBe('')
 	})
 })
+
+describe('groupFilesBySidebarSection', () => {
+	const paths = (groups: Awaited<ReturnType<typeof groupFilesBySidebarSection>>) =>
+		groups.map(({ section, files }) => [section.text, files.map((file) => file.path)])
+
+	it('groups the files by the top-level sidebar sections', async () => {
+		expect(paths(await groupFilesBySidebarSection(preparedFilesSample, sampleVitePressSidebar))).toEqual([
+			['Test Section', ['test/getting-started.md']],
+			['Quickstart Section', ['test/quickstart.md']],
+		])
+	})
+
+	it('flattens sidebars with path keys', async () => {
+		expect(
+			paths(await groupFilesBySidebarSection(preparedFilesSample, sampleObjectVitePressSidebar)),
+		).toEqual([
+			['Getting Started', ['test/getting-started.md']],
+			['API Reference', ['test/quickstart.md']],
+		])
+	})
+
+	it('omits sections without matching files', async () => {
+		expect(
+			paths(await groupFilesBySidebarSection(preparedFilesSample.slice(0, 2), sampleVitePressSidebar)),
+		).toEqual([['Test Section', ['test/getting-started.md']]])
+	})
+})
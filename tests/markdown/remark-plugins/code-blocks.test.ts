@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'bun:test'
+import { remark } from 'remark'
+// @ts-ignore
+import remarkCodeBlocks, { parseCodeInfo } from '@/markdown/remark-plugins/code-blocks'
+
+/** Normalizes the code blocks in the markdown. */
+const process = async (markdown: string, options = {}) =>
+	String(await remark().use(remarkCodeBlocks(options)).process(markdown))
+
+describe('parseCodeInfo', () => {
+	it('extracts the bare language and the title', () => {
+		expect(parseCodeInfo('ts{1,3}[config.ts]')).toEqual({ lang: 'ts', title: 'config.ts' })
+		expect(parseCodeInfo('ts:line-numbers {1} [My Config] class="highlight"')).toEqual({
+			lang: 'ts',
+			title: 'My Config',
+		})
+		expect(parseCodeInfo('c++')).toEqual({ lang: 'c++', title: undefined })
+		expect(parseCodeInfo('[Output]')).toEqual({ lang: undefined, title: 'Output' })
+	})
+})
+
+describe('remarkCodeBlocks', () => {
+	it('reduces the info strings to the language and puts the title before the code block', async () => {
+		const markdown = [
+			'```ts{1,3}[config.ts]',
+			'export default {}',
+			'```',
+			'',
+			'```typescript{1,5}[Math Utils] class="highlight"',
+			'const x = 1',
+			'```',
+			'',
+			'```sh:no-line-numbers',
+			'npm i',
+			'```',
+		].join('\n')
+
+		expect(await process(markdown)).toBe(
+			[
+				'**config.ts**',
+				'',
+				'```ts',
+				'export default {}',
+				'```',
+				'',
+				'**Math Utils**',
+				'',
+				'```typescript',
+				'const x = 1',
+				'```',
+				'',
+				'```sh',
+				'npm i',
+				'```',
+				'',
+			].join('\n'),
+		)
+	})
+
+	it('renders the title as a comment', async () => {
+		const markdown = [
+			'```ts [config.ts]',
+			'export default {}',
+			'```',
+			'',
+			'```json [package.json]',
+			'{}',
+			'```',
+		].join('\n')
+
+		expect(await process(markdown, { title: 'comment' })).toBe(
+			[
+				'```ts',
+				'// config.ts',
+				'export default {}',
+				'```',
+				'',
+				// JSON has no comments
+				'**package.json**',
+				'',
+				'```json',
+				'{}',
+				'```',
+				'',
+			].join('\n'),
+		)
+		expect(await process('```vue [App.vue]\n<template />\n```', { title: 'comment' })).toBe(
+			'```vue\n<!-- App.vue -->\n<template />\n```\n',
+		)
+		expect(await process('```ts [config.ts]\n1\n```', { title: 'drop' })).toBe('```ts\n1\n```\n')
+	})
+
+	it('applies the annotations', async () => {
+		const markdown = [
+			'```ts',
+			"const a = 'old' // [!code --]",
+			"const a = 'new' // [!code ++]",
+			'focus() // [!code focus:2]',
+			'fail() // [!code error] // [!code warning]',
+			'```',
+			'',
+			'```html',
+			'<div /> <!-- [!code highlight] -->',
+			'```',
+			'',
+			'```sh',
+			'npm i  # [!code --]',
+			'pnpm i # [!code ++]',
+			'```',
+		].join('\n')
+
+		expect(await process(markdown)).toBe(
+			[
+				'```ts',
+				"const a = 'new'",
+				'focus()',
+				'fail()',
+				'```',
+				'',
+				'```html',
+				'<div />',
+				'```',
+				'',
+				'```sh',
+				'pnpm i',
+				'```',
+				'',
+			].join('\n'),
+		)
+		expect(await process(markdown, { annotations: false })).toBe(markdown.concat('\n'))
+	})
+})
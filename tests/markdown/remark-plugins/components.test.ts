@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'bun:test'
+import dedent from 'dedent'
+import { remark } from 'remark'
+import { remove } from 'unist-util-remove'
+// @ts-ignore
+import remarkComponents, { resolveComponentRenderers } from '@/markdown/remark-plugins/components'
+
+/** Renders the components and strips the remaining HTML, like the pipeline does. */
+const process = async (markdown: string, components = {}) =>
+	String(
+		await remark()
+			.use(remarkComponents(resolveComponentRenderers(components)))
+			.use(() => (tree) => {
+				remove(tree, { type: 'html' })
+			})
+			.process(markdown),
+	)
+
+describe('remarkComponents', () => {
+	it('renders badges', async () => {
+		expect(
+			await process(
+				'## getFoo <Badge type="warning" text="deprecated" />\n\nNew in <Badge type="tip">v2</Badge>',
+			),
+		).toBe('## getFoo (deprecated)\n\nNew in (v2)\n')
+	})
+
+	it('renders custom components with their props and slot', async () => {
+		const markdown = dedent`
+			<ApiTable name="defineConfig" :since="'1.0'" :rows="rows" compact />
+
+			<api-note level=2>
+			Read the **guide** first.
+			</api-note>
+		`
+
+		expect(
+			await process(markdown, {
+				ApiTable: (props: Record<string, string | true>) =>
+					`| API | Since |\n| --- | --- |\n| ${props['name']} | ${props['since']} |`,
+				ApiNote: (props: Record<string, string | true>, slot: string) =>
+					`> Note (${props['level']}): ${slot}`,
+			}),
+		).toBe(
+			'| API | Since |\n| --- | --- |\n| defineConfig | 1.0 |\n\n> Note (2): Read the **guide** first.\n',
+		)
+	})
+
+	it('renders components wrapping markdown', async () => {
+		const markdown = dedent`
+			<ClientOnly>
+
+			Only in the **browser**.
+
+			</ClientOnly>
+		`
+
+		expect(await process(markdown)).toBe('Only in the **browser**.\n')
+	})
+
+	it('renders the team page', async () => {
+		const markdown = dedent`
+			<VPTeamPage>
+			  <VPTeamPageTitle>
+			    <template #title>Our Team</template>
+			    <template #lead>The people behind the tool.</template>
+			  </VPTeamPageTitle>
+			  <VPTeamMembers :members="members" />
+			</VPTeamPage>
+		`
+
+		expect(await process(markdown)).toBe('## Our Team\n\nThe people behind the tool.\n')
+	})
+
+	it('leaves components without a renderer and turned off ones', async () => {
+		expect(await process('Text <Unknown /> and <Badge text="beta" /> here', { Badge: false })).toBe(
+			'Text  and  here\n',
+		)
+	})
+
+	it('leaves components for which the renderer returns `undefined`', async () => {
+		const markdown = '<div>\n<Badge text="beta" />\n</div>\n'
+		const output = String(
+			await remark()
+				.use(remarkComponents(resolveComponentRenderers({ Badge: () => undefined })))
+				.process(markdown),
+		)
+
+		expect(output).toBe(markdown)
+	})
+})
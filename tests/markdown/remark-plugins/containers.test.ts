@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'bun:test'
+import dedent from 'dedent'
+import { remark } from 'remark'
+// @ts-ignore
+import remarkContainers, { resolveContainerRenderers } from '@/markdown/remark-plugins/containers'
+
+/** Converts the containers in the markdown. */
+const process = async (markdown: string, containers = {}) =>
+	String(
+		await remark()
+			.use(remarkContainers(resolveContainerRenderers(containers)))
+			.process(markdown),
+	)
+
+describe('remarkContainers', () => {
+	it('converts containers into callouts', async () => {
+		const markdown = dedent`
+			::: tip
+			Use the **CLI** for this.
+			:::
+
+			::: danger Careful
+
+			This removes everything.
+
+			Really.
+
+			:::
+		`
+
+		expect(await process(markdown)).toBe(
+			'> **Tip:** Use the **CLI** for this.\n\n> **Careful:** This removes everything.\n>\n> Really.\n',
+		)
+	})
+
+	it('puts the label on its own line before code blocks', async () => {
+		const markdown = dedent`
+			::: details
+			\`\`\`sh
+			rm -rf dist
+			\`\`\`
+			:::
+		`
+
+		expect(await process(markdown)).toBe('> **Details:**\n>\n> ```sh\n> rm -rf dist\n> ```\n')
+	})
+
+	it('labels the code blocks of code groups', async () => {
+		const markdown = dedent`
+			::: code-group
+			\`\`\`js [config.js]
+			export default {}
+			\`\`\`
+			\`\`\`ts [config.ts] {1}
+			export default {} satisfies Config
+			\`\`\`
+			:::
+		`
+
+		expect(await process(markdown)).toBe(
+			'**config.js**\n\n```js\nexport default {}\n```\n\n**config.ts**\n\n```ts {1}\nexport default {} satisfies Config\n```\n',
+		)
+	})
+
+	it('converts nested containers', async () => {
+		const markdown = dedent`
+			:::: warning
+			Before upgrading:
+			::: code-group
+			\`\`\`sh [npm]
+			npm i tool@2
+			\`\`\`
+			:::
+			::::
+		`
+
+		expect(await process(markdown)).toBe(
+			'> **Warning:** Before upgrading:\n>\n> **npm**\n>\n> ```sh\n> npm i tool@2\n> ```\n',
+		)
+	})
+
+	it('uses the custom renderers', async () => {
+		const markdown = '::: warning Careful\nThis is dangerous.\n:::\n\n::: tip\nA tip.\n:::\n'
+
+		expect(
+			await process(markdown, {
+				warning: (content: string, title?: string) => `**${title?.toUpperCase()}!** ${content}`,
+				tip: false,
+			}),
+		).toBe('**CAREFUL!** This is dangerous.\n\n::: tip\n\nA tip.\n\n:::\n')
+	})
+
+	it('leaves unclosed containers as they are', async () => {
+		expect(await process('::: tip\n\nNever closed.\n')).toBe('::: tip\n\nNever closed.\n')
+	})
+})
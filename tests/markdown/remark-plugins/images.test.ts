@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test'
+import dedent from 'dedent'
+// @ts-ignore
+import { findImagesWithoutAlt, renderImages } from '@/markdown/remark-plugins/images'
+
+const content = dedent`
+	# Architecture
+
+	![Request flow](/images/flow.svg "Overview")
+
+	*Figure 1: How a request travels through the system*
+
+	Click the ![gear](/images/gear.svg) icon to open the settings.
+
+	![](/images/untitled.png)
+`
+
+describe('renderImages', () => {
+	it('keeps the images by default', () => {
+		expect(renderImages(content)).toBe(content)
+	})
+
+	it('replaces the images with placeholders', () => {
+		expect(renderImages(content, 'placeholder')).toBe(
+			[
+				'# Architecture',
+				'',
+				'[Image: Request flow — Overview — Figure 1: How a request travels through the system]',
+				'',
+				'Click the [Image: gear] icon to open the settings.',
+				'',
+				'[Image]',
+				'',
+			].join('\n'),
+		)
+	})
+
+	it('drops the images with their captions', () => {
+		expect(renderImages(content, 'drop')).toBe('# Architecture\n\nClick the icon to open the settings.\n')
+	})
+
+	it('keeps the emphasized paragraphs after the dropped images that are not captions', () => {
+		const markdown = '![Settings](/images/settings.png)\n\n*Only admins can see these settings.*\n'
+
+		expect(renderImages(markdown, 'drop')).toBe('*Only admins can see these settings.*\n')
+		expect(renderImages(markdown, 'placeholder')).toBe(
+			'[Image: Settings — Only admins can see these settings.]\n',
+		)
+	})
+
+	it('replaces HTML images', () => {
+		expect(renderImages('<img src="/logo.png" alt="Logo">\n', 'placeholder')).toBe('[Image: Logo]\n')
+	})
+})
+
+describe('findImagesWithoutAlt', () => {
+	it('finds images without an alt text', () => {
+		expect(findImagesWithoutAlt(`${content}\n\n<img src="/logo.png">`)).toEqual([
+			'/images/untitled.png',
+			'/logo.png',
+		])
+	})
+})
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'bun:test'
+import path from 'node:path'
 import { remark } from 'remark'
 // @ts-ignore
 import remarkReplaceImageUrls from '@/markdown/remark-plugins/replace-image-urls'
@@ -12,3 +13,70 @@ describe('remarkReplaceImageUrls', () => {
 		expect(String(file)).toBe('![alt](/assets/vs_code_proxy.hash.png)\n')
 	})
 })
+
+describe('remarkReplaceImageUrls with source paths', () => {
+	const srcDir = path.resolve('docs')
+	const map = new Map([
+		[path.join(srcDir, 'guide/images/logo.png'), 'assets/logo.Bx1.png'],
+		[path.join(srcDir, 'api/images/logo.png'), 'assets/logo.Cz2.png'],
+		[path.join(srcDir, 'media/demo.mp4'), 'assets/demo.Dq3.mp4'],
+	])
+
+	/** Processes the markdown as `guide/getting-started.md`. */
+	const process = async (markdown: string, options = {}) =>
+		String(
+			await remark()
+				.use(remarkReplaceImageUrls(map, { srcDir, ...options }))
+				.process({ path: path.join(srcDir, 'guide/getting-started.md'), value: markdown }),
+		)
+
+	it('resolves images with the same name by their full path', async () => {
+		expect(await process('![Guide](./images/logo.png) ![API](../api/images/logo.png)')).toBe(
+			'![Guide](/assets/logo.Bx1.png) ![API](/assets/logo.Cz2.png)\n',
+		)
+	})
+
+	it('respects the base and the domain', async () => {
+		expect(
+			await process('![Guide](/guide/images/logo.png)', { base: '/docs/', domain: 'https://example.com' }),
+		).toBe('![Guide](https://example.com/docs/assets/logo.Bx1.png)\n')
+	})
+
+	it('resolves assets from the public directory', async () => {
+		expect(await process('![Favicon](/favicon.svg)', { base: '/docs/' })).toBe(
+			'![Favicon](/docs/favicon.svg)\n',
+		)
+	})
+
+	it('replaces the sources of HTML images and videos', async () => {
+		expect(
+			await process(
+				'<img src="./images/logo.png" alt="Logo">\n\n<video src="/media/demo.mp4" poster=\'/poster.jpg\' controls></video>',
+				{ base: '/docs/' },
+			),
+		).toBe(
+			'<img src="/docs/assets/logo.Bx1.png" alt="Logo">\n\n<video src="/docs/assets/demo.Dq3.mp4" poster=\'/docs/poster.jpg\' controls></video>\n',
+		)
+	})
+
+	it("doesn't match images by name to assets from other folders", async () => {
+		// `guide/images/icon.png` was inlined by Vite, so only the API one is in the bundle
+		const processor = remark().use(
+			remarkReplaceImageUrls(new Map([[path.join(srcDir, 'api/images/icon.png'), 'assets/icon.Ab1.png']]), {
+				srcDir,
+			}),
+		)
+		const file = await processor.process({
+			path: path.join(srcDir, 'guide/getting-started.md'),
+			value: '![Icon](./images/icon.png)',
+		})
+
+		expect(String(file)).toBe('![Icon](./images/icon.png)\n')
+	})
+
+	it('leaves external and unknown relative images as is', async () => {
+		const markdown = '![Remote](https://example.com/logo.png) ![Unknown](./images/unknown.png)\n'
+
+		expect(await process(markdown, { domain: 'https://example.com' })).toBe(markdown)
+	})
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test'
+import { remark } from 'remark'
+// @ts-ignore
+import remarkReplaceLinks, { resolveRoute } from '@/markdown/remark-plugins/replace-links'
+
+const pages = new Map([
+	['', '/index.md'],
+	['guide', '/guide.md'],
+	['guide/getting-started', '/guide/getting-started.md'],
+	['guide/config', '/guide/config.md'],
+	['drafts/todo', undefined],
+])
+
+/** Processes the markdown as the page at `pagePath`. */
+const process = (markdown: string, pagePath = 'guide/getting-started.md', base?: string) =>
+	remark().use(remarkReplaceLinks({ pages, pagePath, base })).process({ path: pagePath, value: markdown })
+
+describe('resolveRoute', () => {
+	it('resolves the routes of pages and links', () => {
+		expect(resolveRoute('guide/index.md')).toBe('guide')
+		expect(resolveRoute('guide/')).toBe('guide')
+		expect(resolveRoute('guide/getting-started.html')).toBe('guide/getting-started')
+		expect(resolveRoute('guide/getting-started')).toBe('guide/getting-started')
+		expect(resolveRoute('index.md')).toBe('')
+		expect(resolveRoute('')).toBe('')
+		expect(resolveRoute('files/manual.pdf')).toBeUndefined()
+	})
+})
+
+describe('remarkReplaceLinks', () => {
+	it('rewrites absolute and relative links to the LLM-friendly pages', async () => {
+		const file = await process(
+			'[Config](/guide/config) [Options](./config.md#options) [Guide](../guide/) [Home](../index.html?v=1)',
+		)
+
+		expect(String(file)).toBe(
+			'[Config](/guide/config.md) [Options](/guide/config.md#options) [Guide](/guide.md) [Home](/index.md?v=1)\n',
+		)
+		expect(file.data['brokenLinks']).toEqual([])
+	})
+
+	it('resolves relative links from the directory of index pages', async () => {
+		const file = await process('[Config](config)', 'guide/index.md')
+
+		expect(String(file)).toBe('[Config](/guide/config.md)\n')
+	})
+
+	it('strips the base from absolute links', async () => {
+		const file = await process('[Config](/docs/guide/config)', 'guide/index.md', '/docs/')
+
+		expect(String(file)).toBe('[Config](/guide/config.md)\n')
+	})
+
+	it('rewrites reference links', async () => {
+		const file = await process('[Config][config]\n\n[config]: ./config.md')
+
+		expect(String(file)).toBe('[Config][config]\n\n[config]: /guide/config.md\n')
+	})
+
+	it('leaves external links, anchors, assets and pages without an LLM-friendly version as is', async () => {
+		const markdown =
+			'[GitHub](https://github.com) [Mail](mailto:me@example.com) [Top](#top) [Manual](/files/manual.pdf) [TODO](/drafts/todo)\n'
+		const file = await process(markdown)
+
+		expect(String(file)).toBe(markdown)
+		expect(file.data['brokenLinks']).toEqual([])
+	})
+
+	it('collects links to pages that do not exist', async () => {
+		const file = await process('[Missing](./missing.md#usage) [API](/api/)')
+
+		expect(String(file)).toBe('[Missing](./missing.md#usage) [API](/api/)\n')
+		expect(file.data['brokenLinks']).toEqual(['./missing.md#usage', '/api/'])
+	})
+})
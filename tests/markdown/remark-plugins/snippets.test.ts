@@ -19,6 +19,8 @@ mock.module('node:fs', () => ({
 
 import path from 'node:path'
 import dedent from 'dedent'
+// @ts-ignore
+import remarkCodeBlocks from '@/markdown/remark-plugins/code-blocks'
 // Import after mocking
 // @ts-ignore
 import remarkInclude from '@/markdown/remark-plugins/snippets'
@@ -180,6 +182,192 @@ After region`
 			'utf-8',
 		)
 	})
+
+	it('should record the paths of missing files', async () => {
+		mockExistsSync.mockReturnValue(false)
+
+		const processor = remark().use(remarkInclude({ srcDir: path.resolve('/docs') }))
+		const result = await processor.process({
+			path: path.resolve('/docs/guide/page.md'),
+			value: '<!--@include: ./missing.md-->\n\n<<< @/snippets/missing.ts',
+		})
+
+		expect(result.data['missingIncludes']).toEqual([
+			path.resolve('/docs/guide/missing.md'),
+			path.resolve('/docs/snippets/missing.ts'),
+		])
+	})
+
+	it('should resolve nested includes relative to the included file', async () => {
+		const files: Record<string, string> = {
+			[path.resolve('/docs/parts/intro.md')]: 'Intro\n\n<!--@include: ./shared/note.md-->',
+			[path.resolve('/docs/parts/shared/note.md')]: 'A shared note',
+		}
+		mockReadFileSync.mockImplementation(((file: string) => files[file]) as () => string)
+
+		const processor = remark().use(remarkInclude({ srcDir: path.resolve('/docs') }))
+		const result = await processor.process({
+			path: path.resolve('/docs/guide/page.md'),
+			value: '<!--@include: ../parts/intro.md-->',
+		})
+
+		expect(String(result)).toBe('Intro\n\nA shared note\n')
+		expect(result.data['includes']).toEqual(Object.keys(files))
+	})
+
+	it('should process snippets in included files', async () => {
+		const files: Record<string, string> = {
+			[path.resolve('/docs/parts/setup.md')]: 'Create the config:\n\n<<< @/snippets/config.ts',
+			[path.resolve('/docs/snippets/config.ts')]: 'export default {}',
+		}
+		mockReadFileSync.mockImplementation(((file: string) => files[file]) as () => string)
+
+		const processor = remark().use(remarkInclude({ srcDir: path.resolve('/docs') }))
+		const result = await processor.process({
+			path: path.resolve('/docs/guide/page.md'),
+			value: '# Setup\n\n<!--@include: @/parts/setup.md-->',
+		})
+
+		expect(String(result)).toBe('# Setup\n\nCreate the config:\n\n```ts\nexport default {}\n```\n')
+	})
+
+	it('should resolve the aliases of Vite', async () => {
+		mockReadFileSync.mockReturnValue('Aliased content')
+
+		const processor = remark().use(
+			remarkInclude({
+				srcDir: path.resolve('/docs'),
+				aliases: [
+					{ find: '@', replacement: path.resolve('/src') },
+					{ find: '@examples', replacement: path.resolve('/examples') },
+					{ find: /^~shared\//, replacement: `${path.resolve('/shared')}/` },
+				],
+			}),
+		)
+
+		await processor.process('<!--@include: @/intro.md-->\n\n<<< @examples/basic.ts\n\n<<< ~shared/utils.ts')
+
+		expect(mockReadFileSync.mock.calls.map(([file]) => file)).toEqual([
+			path.resolve('/docs/intro.md'),
+			path.resolve('/examples/basic.ts'),
+			path.resolve('/shared/utils.ts'),
+		])
+	})
+
+	it('should mark the included content with its source', async () => {
+		const files: Record<string, string> = {
+			[path.resolve('/docs/parts/intro.md')]:
+				'---\ntitle: Intro\n---\nIntro\n\n<!--@include: ./note.md{2,3}-->',
+			[path.resolve('/docs/parts/note.md')]: 'Skipped\nA note\nAnother line\nSkipped',
+		}
+		mockReadFileSync.mockImplementation(((file: string) => files[file]) as () => string)
+
+		const processor = remark().use(
+			remarkInclude({ srcDir: path.resolve('/docs'), stripFrontmatter: true, provenance: 'line' }),
+		)
+		const result = await processor.process({
+			path: path.resolve('/docs/guide/page.md'),
+			value: '<!--@include: ../parts/intro.md-->',
+		})
+
+		expect(String(result)).toBe(
+			[
+				'source: parts/intro.md#L4-L6',
+				'',
+				'Intro',
+				'',
+				'source: parts/note.md#L2-L3',
+				'',
+				'A note',
+				'Another line',
+				'',
+				'end source: parts/note.md',
+				'',
+				'end source: parts/intro.md',
+				'',
+			].join('\n'),
+		)
+	})
+
+	it('should not count the newline at the end of the files as a line', async () => {
+		const files: Record<string, string> = {
+			[path.resolve('/docs/parts/a.md')]: 'A\n\nB\n',
+			[path.resolve('/docs/parts/b.ts')]: 'export const b = 1\n',
+		}
+		mockReadFileSync.mockImplementation(((file: string) => files[file]) as () => string)
+
+		const processor = remark().use(remarkInclude({ srcDir: path.resolve('/docs'), provenance: 'line' }))
+		const result = await processor.process({
+			path: path.resolve('/docs/page.md'),
+			value: '<!--@include: ./parts/a.md-->\n\n<<< ./parts/b.ts',
+		})
+
+		expect(String(result)).toContain('source: parts/a.md#L1-L3')
+		expect(String(result)).toContain('source: parts/b.ts#L1-L1')
+	})
+
+	it('should fail on circular includes', async () => {
+		const files: Record<string, string> = {
+			[path.resolve('/docs/parts/a.md')]: 'A\n\n<!--@include: ./b.md-->',
+			[path.resolve('/docs/parts/b.md')]: 'B\n\n<!--@include: ./a.md-->',
+		}
+		mockReadFileSync.mockImplementation(((file: string) => files[file]) as () => string)
+
+		const processor = remark().use(remarkInclude({ srcDir: path.resolve('/docs') }))
+
+		await expect(
+			processor.process({
+				path: path.resolve('/docs/guide/page.md'),
+				value: '<!--@include: ../parts/a.md-->',
+			}),
+		).rejects.toThrow('Circular include: guide/page.md -> parts/a.md -> parts/b.md -> parts/a.md')
+		await expect(
+			processor.process({ path: path.resolve('/docs/parts/a.md'), value: '<!--@include: ./a.md-->' }),
+		).rejects.toThrow('Circular include: parts/a.md -> parts/a.md')
+	})
+
+	it('should include other regions of the same file', async () => {
+		const page = dedent`
+			<!--@include: ./page.md#other-->
+
+			<!-- #region other -->
+			Other
+			<!-- #endregion other -->
+		`
+		mockReadFileSync.mockReturnValue(page)
+
+		const processor = remark().use(remarkInclude({ srcDir: path.resolve('/docs') }))
+		const result = await processor.process({ path: path.resolve('/docs/page.md'), value: page })
+
+		expect(String(result)).toBe('Other\n\n<!-- #region other -->\n\nOther\n\n<!-- #endregion other -->\n')
+
+		mockReadFileSync.mockReturnValue(
+			'<!-- #region other -->\n<!--@include: ./page.md#other-->\n<!-- #endregion other -->',
+		)
+
+		await expect(
+			processor.process({ path: path.resolve('/docs/page.md'), value: '<!--@include: ./page.md#other-->' }),
+		).rejects.toThrow('Circular include: page.md -> page.md#other -> page.md#other')
+	})
+
+	it('should limit the depth of includes', async () => {
+		const files: Record<string, string> = {
+			[path.resolve('/docs/1.md')]: '<!--@include: ./2.md-->',
+			[path.resolve('/docs/2.md')]: '<!--@include: ./3.md-->',
+			[path.resolve('/docs/3.md')]: 'Deep',
+		}
+		mockReadFileSync.mockImplementation(((file: string) => files[file]) as () => string)
+
+		const include = (maxDepth: number) =>
+			remark()
+				.use(remarkInclude({ srcDir: path.resolve('/docs'), maxDepth }))
+				.process({ path: path.resolve('/docs/page.md'), value: '<!--@include: ./1.md-->' })
+
+		expect(String(await include(3))).toBe('Deep\n')
+		await expect(include(2)).rejects.toThrow(
+			'Includes are nested deeper than 2 levels: page.md -> 1.md -> 2.md -> 3.md',
+		)
+	})
 })
 
 describe('remark-include code snippets', () => {
@@ -508,4 +696,35 @@ function multiply(a, b) {
 		  "
 		`)
 	})
+	it('should parse snippets that are the only content of a paragraph as code blocks', async () => {
+		mockReadFileSync.mockReturnValue('export default {}')
+
+		const processor = remark().use(
+			remarkInclude({
+				srcDir: '/test',
+			}),
+		)
+
+		const tree = await processor.run(processor.parse('Intro\n\n<<< @/config.ts{1} [config.ts]'))
+
+		expect(tree.children.map((node) => node.type)).toEqual(['paragraph', 'code'])
+		expect(tree.children[1]).toMatchObject({ lang: 'ts{1}[config.ts]', value: 'export default {}' })
+	})
+	it('should apply the annotations of snippets', async () => {
+		mockReadFileSync.mockReturnValue(
+			"export const a = 'old' // [!code --]\nexport const a = 'new' // [!code ++]",
+		)
+
+		const processor = remark()
+			.use(
+				remarkInclude({
+					srcDir: '/test',
+				}),
+			)
+			.use(remarkCodeBlocks())
+
+		const result = await processor.process('<<< @/constants.ts [constants.ts]')
+
+		expect(String(result)).toBe("**constants.ts**\n\n```ts\nexport const a = 'new'\n```\n")
+	})
 })
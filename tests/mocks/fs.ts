@@ -1,4 +1,5 @@
 import { mock } from 'bun:test'
+import path from 'node:path'
 import fakeMarkdownDocument from '../test-assets/markdown-document.md'
 
 /**
@@ -10,9 +11,32 @@ export const mockedFs = {
 	default: {
 		access: mock(async (): Promise<void> => undefined),
 		mkdir: mock(),
+		readdir: mock(async (): Promise<unknown[]> => []),
 		readFile: mock(async (): Promise<string> => fakeMarkdownDocument),
 		writeFile: mock(),
 	},
 }
 
+/**
+ * Makes the mocked `readdir` and `readFile` serve the given files.
+ *
+ * @param rootDir - The directory containing the files.
+ * @param files - File contents by their path relative to `rootDir`.
+ */
+export function mockFiles(rootDir: string, files: Record<string, string>): void {
+	mockedFs.default.readdir.mockImplementation(async (dir: string) => {
+		const entries = new Map<string, boolean>()
+		for (const file of Object.keys(files)) {
+			const relativePath = path.relative(dir, path.resolve(rootDir, file))
+			if (relativePath.startsWith('..')) continue
+			const [name, ...rest] = relativePath.split(path.sep)
+			entries.set(name as string, rest.length > 0)
+		}
+		return Array.from(entries, ([name, isDirectory]) => ({ name, isDirectory: () => isDirectory }))
+	})
+	mockedFs.default.readFile.mockImplementation(
+		async (file: string) => files[path.relative(rootDir, file)] as string,
+	)
+}
+
 export default mockedFs
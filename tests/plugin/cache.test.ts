@@ -0,0 +1,127 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from 'bun:test'
+import path from 'node:path'
+import matter from 'gray-matter'
+import mockedFs from '../mocks/fs'
+
+const { readFile, writeFile } = mockedFs.default
+
+mock.module('node:fs/promises', () => mockedFs)
+
+import {
+	getCachedPreparedFile,
+	hashSettings,
+	loadPreparedFilesCache,
+	savePreparedFilesCache,
+	setCachedPreparedFile,
+	// @ts-ignore
+} from '@/plugin/cache'
+
+const cacheDir = path.resolve('.cache')
+const sourceFile = path.resolve('docs', 'guide.md')
+const includedFile = path.resolve('docs', 'parts', 'intro.md')
+const missingFile = path.resolve('docs', 'parts', 'outro.md')
+
+/** In-memory file system */
+let files: Record<string, string>
+
+describe('prepared files cache', () => {
+	beforeEach(() => {
+		files = { [includedFile]: 'Included content' }
+
+		readFile.mockImplementation(async (file: string) => {
+			if (!(file in files)) throw new Error(`ENOENT: ${file}`)
+			return files[file] as string
+		})
+		writeFile.mockImplementation(async (file: string, content: string) => {
+			files[file] = content
+		})
+	})
+
+	afterAll(() => {
+		readFile.mockReset()
+		writeFile.mockReset()
+	})
+
+	/** Prepares `guide.md` in one build and loads the cache in the next one. */
+	const buildTwice = async (settingsHash = 'settings') => {
+		const firstBuild = await loadPreparedFilesCache(cacheDir, 'settings')
+		await setCachedPreparedFile(
+			firstBuild,
+			sourceFile,
+			'# Guide',
+			{
+				path: 'guide.md',
+				title: 'Guide',
+				file: matter('# Guide'),
+				includes: [includedFile],
+				missingIncludes: [missingFile],
+			},
+			'# Guide\n\nIncluded content\n',
+		)
+		await savePreparedFilesCache(firstBuild)
+
+		return loadPreparedFilesCache(cacheDir, settingsHash)
+	}
+
+	it('reuses unchanged files from the previous build', async () => {
+		const cache = await buildTwice()
+		const preparedFile = await getCachedPreparedFile(cache, sourceFile, '# Guide')
+
+		expect(preparedFile?.title).toBe('Guide')
+		expect(preparedFile?.path).toBe('guide.md')
+		expect(preparedFile?.file.content).toBe('# Guide\n\nIncluded content\n')
+		expect(cache.hits).toBe(1)
+	})
+
+	it('prepares the file again when its content changes', async () => {
+		const cache = await buildTwice()
+
+		expect(await getCachedPreparedFile(cache, sourceFile, '# New guide')).toBeUndefined()
+	})
+
+	it('prepares the file again when an included file changes', async () => {
+		const cache = await buildTwice()
+		files[includedFile] = 'Changed content'
+
+		expect(await getCachedPreparedFile(cache, sourceFile, '# Guide')).toBeUndefined()
+	})
+
+	it('prepares the file again when a missing included file is created', async () => {
+		const cache = await buildTwice()
+		const nextCache = await loadPreparedFilesCache(cacheDir, 'settings')
+
+		expect((await getCachedPreparedFile(cache, sourceFile, '# Guide'))?.includes).toEqual([includedFile])
+
+		files[missingFile] = 'Outro'
+		expect(await getCachedPreparedFile(nextCache, sourceFile, '# Guide')).toBeUndefined()
+	})
+
+	it('discards the cache when the settings change', async () => {
+		const cache = await buildTwice('other settings')
+
+		expect(await getCachedPreparedFile(cache, sourceFile, '# Guide')).toBeUndefined()
+		expect(cache.hits).toBe(0)
+	})
+})
+
+describe('hashSettings', () => {
+	const config = { base: '/', vitepress: {} } as never
+	const hash = (settings: object, overrides: object = {}) =>
+		hashSettings(settings as never, { ...(config as object), ...overrides } as never, new Map())
+
+	it('takes the function-valued settings into account', () => {
+		expect(hash({ components: { Badge: () => '(beta)' } })).not.toBe(
+			hash({ components: { Badge: () => '(alpha)' } }),
+		)
+		expect(hash({ components: { Badge: () => '(beta)' } })).toBe(
+			hash({ components: { Badge: () => '(beta)' } }),
+		)
+	})
+
+	it('takes the base and the aliases into account', () => {
+		expect(hash({})).not.toBe(hash({}, { base: '/docs/' }))
+		expect(hash({}, { resolve: { alias: [{ find: /^~a/, replacement: '/a' }] } })).not.toBe(
+			hash({}, { resolve: { alias: [{ find: /^~b/, replacement: '/a' }] } }),
+		)
+	})
+})
@@ -1,6 +1,8 @@
-// spell-checker:words awesomeproject myproject otherdocs
+// spell-checker:words awesomeproject myproject otherdocs Français génial outil
 
 import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import fs from 'node:fs'
+import path from 'node:path'
 import type { ViteDevServer } from 'vite'
 import type { Plugin } from 'vitepress'
 import mockedFs from '../mocks/fs'
@@ -15,7 +17,18 @@ mock.module('node:fs/promises', () => mockedFs)
 // Mock the logger to prevent logs in tests
 mock.module('@/utils/logger', () => mockedLogger)
 
-import path from 'node:path'
+/** The contents of the files read by includes, by their absolute path. */
+const includedFiles = new Map<string, string>()
+const { existsSync, readFileSync } = fs
+const mockedSyncFs = {
+	...fs,
+	existsSync: (file: string) => includedFiles.has(path.resolve(file)) || existsSync(file),
+	readFileSync: (file: string, ...args: []) =>
+		includedFiles.get(path.resolve(file)) ?? readFileSync(file, ...args),
+}
+
+mock.module('node:fs', () => ({ ...mockedSyncFs, default: mockedSyncFs }))
+
 import type { VitePressConfig } from '@/internal-types'
 // Import the module under test AFTER mocking its dependencies
 // @ts-ignore
@@ -49,13 +62,19 @@ describe('llmstxt plugin', () => {
 			middlewares: {
 				use: mock(),
 			},
+			watcher: {
+				on: mock(),
+			},
 		} as unknown as ViteDevServer
 
 		// Initialize plugin
 		plugin = llmstxt()
 	})
 
-	afterEach(() => readFile.mockReset())
+	afterEach(() => {
+		readFile.mockReset()
+		includedFiles.clear()
+	})
 
 	describe('configureServer', () => {
 		it('should configure server middleware', () => {
@@ -64,6 +83,117 @@ describe('llmstxt plugin', () => {
 			const spyMiddlewaresUse = spyOn(mockServer.middlewares, 'use')
 			expect(spyMiddlewaresUse).toHaveBeenCalled()
 		})
+
+		describe('middleware', () => {
+			/** Sends a fake request to the registered middleware and collects the response. */
+			const request = async (url: string) => {
+				const middleware = (mockServer.middlewares.use as ReturnType<typeof mock>).mock.calls[0]?.[0]
+				const res = { setHeader: mock(), end: mock() }
+				const next = mock()
+				await middleware({ url }, res, next)
+				return { body: res.end.mock.calls[0]?.[0] as string | undefined, next }
+			}
+
+			beforeEach(async () => {
+				// @ts-ignore
+				plugin[1].configResolved(mockConfig)
+				// @ts-ignore
+				await plugin[1].configureServer(mockServer)
+				await Promise.all([
+					// @ts-ignore
+					plugin[0].transform(fakeMarkdownDocument, 'docs/test.md'),
+					// @ts-ignore
+					plugin[0].transform(fakeMarkdownDocument, 'docs/guide/index.md'),
+				])
+			})
+
+			it('generates `llms.txt` from the collected files without writing to disk', async () => {
+				const { body, next } = await request('/llms.txt')
+
+				expect(next).not.toHaveBeenCalled()
+				expect(body).toContain('- [Some cool stuff](/test.md)')
+				expect(body).toContain('- [Some cool stuff](/guide.md)')
+				expect(writeFile).not.toHaveBeenCalled()
+			})
+
+			it('generates `llms-full.txt` from the collected files', async () => {
+				const { body } = await request('/llms-full.txt')
+
+				expect(body).toContain('url: /test.md')
+				expect(body).toContain('url: /guide.md')
+			})
+
+			it('generates the LLM-friendly version of a page', async () => {
+				const { body } = await request('/guide.md')
+
+				expect(body).toBe('---\ntitle: Some cool stuff\nurl: /guide.md\ntokens: 4\n---\n# Some cool stuff\n')
+			})
+
+			it('regenerates a page when it changes', async () => {
+				expect((await request('/test.md')).body).toContain('# Some cool stuff')
+
+				readFile.mockReturnValue(Promise.resolve('# Updated stuff'))
+				const onChange = (mockServer.watcher.on as ReturnType<typeof mock>).mock.calls.find(
+					([event]) => event === 'change',
+				)?.[1]
+				await onChange(path.resolve('docs/test.md'))
+
+				expect((await request('/test.md')).body).toContain('# Updated stuff')
+				expect((await request('/llms.txt')).body).toContain('- [Updated stuff](/test.md)')
+			})
+
+			it('regenerates the pages including a changed file', async () => {
+				const includePath = path.resolve('docs/parts/intro.md')
+				includedFiles.set(includePath, '# Intro')
+				readFile.mockImplementation(async (file: string) =>
+					file.endsWith('test.md') ? '<!--@include: ./parts/intro.md-->' : fakeMarkdownDocument,
+				)
+
+				expect((await request('/test.md')).body).toContain('# Intro')
+
+				includedFiles.set(includePath, '# Updated intro')
+				const onChange = (mockServer.watcher.on as ReturnType<typeof mock>).mock.calls.find(
+					([event]) => event === 'change',
+				)?.[1]
+				await onChange(includePath)
+
+				expect((await request('/test.md')).body).toContain('# Updated intro')
+				expect((await request('/llms.txt')).body).toContain('- [Updated intro](/test.md)')
+
+				// An include that doesn't exist yet
+				const outroPath = path.resolve('docs/parts/outro.md')
+				includedFiles.set(includePath, '# Intro\n\n<!--@include: ./outro.md-->')
+				await onChange(includePath)
+				expect((await request('/test.md')).body).not.toContain('Outro')
+
+				includedFiles.set(outroPath, 'Outro')
+				const onAdd = (mockServer.watcher.on as ReturnType<typeof mock>).mock.calls.find(
+					([event]) => event === 'add',
+				)?.[1]
+				await onAdd(outroPath)
+
+				expect((await request('/test.md')).body).toContain('Outro')
+			})
+
+			it('does not process unchanged pages again', async () => {
+				await request('/test.md')
+				await request('/test.md')
+				await request('/llms-full.txt')
+
+				// `test.md` once, then `guide/index.md` for `llms-full.txt`
+				expect(readFile).toHaveBeenCalledTimes(2)
+			})
+
+			it('passes through requests it does not handle', async () => {
+				expect((await request('/unknown.md')).next).toHaveBeenCalled()
+				expect((await request('/guide/llms.txt')).next).toHaveBeenCalled()
+				expect((await request('/test.md?t=1700000000000')).next).toHaveBeenCalled()
+			})
+
+			it('passes through requests with malformed URLs', async () => {
+				expect((await request('/%E0.md')).next).toHaveBeenCalled()
+			})
+		})
 	})
 
 	describe('transform', () => {
@@ -311,6 +441,90 @@ This is a test page.`
 					'Are you an LLM? You can read better optimized documentation at /test.md for this page in Markdown format',
 				)
 			})
+
+			it('should expand a custom LLM hint template', async () => {
+				const plugin = llmstxt({
+					llmHint: 'LLM? {url} (~{tokens} tokens), index at {llmsTxt}, everything at {llmsFullTxt}',
+				})
+
+				// @ts-ignore
+				plugin[1].configResolved({ ...mockConfig, base: '/myproject/' })
+
+				// @ts-ignore
+				const result = await plugin[0].transform('# Test\n\nSome text', 'docs/test.md')
+
+				expect(result.code).toContain(
+					'LLM? /myproject/test.md (~4 tokens), index at /myproject/llms.txt, everything at /myproject/llms-full.txt',
+				)
+			})
+
+			it('should pass the page to the LLM hint function', async () => {
+				const llmHint = mock(({ frontmatter }) => (frontmatter.hint === false ? undefined : 'Read {url}'))
+				const plugin = llmstxt({ llmHint })
+
+				// @ts-ignore
+				plugin[1].configResolved(mockConfig)
+
+				// @ts-ignore
+				const result = await plugin[0].transform('---\ntitle: Test\n---\n\n# Test', 'docs/guide/test.md')
+				// @ts-ignore
+				const skipped = await plugin[0].transform('---\nhint: false\n---\n\n# Test', 'docs/test.md')
+
+				expect(result.code).toContain('Read /guide/test.md')
+				expect(skipped).toBeNull()
+				expect(llmHint).toHaveBeenCalledWith({
+					path: 'guide/test.md',
+					frontmatter: { title: 'Test' },
+					isMainPage: false,
+					locale: 'root',
+				})
+			})
+
+			it('should not inject LLM hint on pages without the LLM-friendly version', async () => {
+				const plugin = llmstxt()
+
+				// @ts-ignore
+				plugin[1].configResolved(mockConfig)
+
+				// @ts-ignore
+				const excluded = await plugin[0].transform('---\nllms: false\n---\n\n# Test', 'docs/test.md')
+				// @ts-ignore
+				const withoutPage = await plugin[0].transform(
+					'---\nllms:\n  page: false\n---\n\n# Test',
+					'docs/test.md',
+				)
+
+				expect(excluded).toBeNull()
+				expect(withoutPage).toBeNull()
+			})
+
+			// spell-checker:disable
+			it('should use the LLM hint of the locale of the page', async () => {
+				const plugin = llmstxt({
+					llmHint: {
+						root: 'Read {url}',
+						fr: 'Lisez {url} ou {llmsTxt}',
+					},
+				})
+
+				// @ts-ignore
+				plugin[1].configResolved({
+					...mockConfig,
+					vitepress: {
+						...mockConfig.vitepress,
+						userConfig: { locales: { root: { label: 'English' }, fr: { label: 'Français' } } },
+					},
+				})
+
+				// @ts-ignore
+				const rootResult = await plugin[0].transform(fakeMarkdownDocument, 'docs/test.md')
+				// @ts-ignore
+				const frResult = await plugin[0].transform(fakeMarkdownDocument, 'docs/fr/test.md')
+
+				expect(rootResult.code).toContain('Read /test.md')
+				expect(frResult.code).toContain('Lisez /fr/test.md ou /fr/llms.txt')
+			})
+			// spell-checker:enable
 		})
 	})
 
@@ -357,17 +571,17 @@ This is a test page.`
 			expect(writeFile).nthCalledWith(
 				1,
 				path.resolve(mockConfig.vitepress.outDir, 'test.md'),
-				'---\nurl: /test.md\n---\n# Some cool stuff\n',
+				'---\ntitle: Some cool stuff\nurl: /test.md\ntokens: 4\n---\n# Some cool stuff\n',
 			)
 			expect(writeFile).nthCalledWith(
 				2,
 				path.resolve(mockConfig.vitepress.outDir, 'test', 'test.md'),
-				'---\nurl: /test/test.md\n---\n# Some cool stuff\n',
+				'---\ntitle: Some cool stuff\nurl: /test/test.md\ntokens: 4\n---\n# Some cool stuff\n',
 			)
 			expect(writeFile).nthCalledWith(
 				3,
 				path.resolve(mockConfig.vitepress.outDir, 'guide.md'),
-				'---\nurl: /guide.md\n---\n# Some cool stuff\n',
+				'---\ntitle: Some cool stuff\nurl: /guide.md\ntokens: 4\n---\n# Some cool stuff\n',
 			)
 		})
 
@@ -393,7 +607,7 @@ This is a test page.`
 			expect(writeFile).toBeCalledWith(
 				// docs/test.md
 				path.resolve(mockConfig.vitepress.outDir, 'test.md'),
-				'---\nurl: /test.md\n---\n# Some cool stuff\n',
+				'---\ntitle: Some cool stuff\nurl: /test.md\ntokens: 4\n---\n# Some cool stuff\n',
 			)
 		})
 
@@ -433,6 +647,133 @@ This is a test page.`
 			expect(writeFile.mock?.lastCall?.[1]).toMatchSnapshot()
 		})
 
+		it('splits `llms-full.txt` into parts when it exceeds `maxTokens`', async () => {
+			plugin = llmstxt({ generateLLMsTxt: false, generateLLMFriendlyDocsForEachPage: false, maxTokens: 1 })
+			// @ts-ignore
+			plugin[1].configResolved(mockConfig)
+			await Promise.all([
+				// @ts-ignore
+				plugin[0].transform(fakeMarkdownDocument, 'docs/test.md'),
+				// @ts-ignore
+				plugin[0].transform(fakeMarkdownDocument, 'docs/guide/index.md'),
+			])
+			// @ts-ignore
+			await plugin[1].generateBundle()
+
+			expect(writeFile).toHaveBeenCalledTimes(3)
+			expect(writeFile.mock.calls.map((call) => path.relative(mockConfig.vitepress.outDir, call[0]))).toEqual(
+				['llms-full.txt', 'llms-full-1.txt', 'llms-full-2.txt'],
+			)
+
+			const index = writeFile.mock.calls[0]?.[1] as string
+			expect(index).toContain('## [llms-full-1.txt](/llms-full-1.txt)')
+			expect(index).toContain('## [llms-full-2.txt](/llms-full-2.txt)')
+			expect(writeFile.mock.calls[1]?.[1]).toContain('url: /test.html')
+			expect(writeFile.mock.calls[2]?.[1]).toContain('url: /guide.html')
+		})
+
+		it('generates a `llms-full` file for each top-level sidebar section', async () => {
+			plugin = llmstxt({ generateLLMFriendlyDocsForEachPage: false, generateLLMsFullTxtPerSection: true })
+			// @ts-ignore
+			plugin[1].configResolved({
+				...mockConfig,
+				vitepress: {
+					...mockConfig.vitepress,
+					userConfig: {
+						themeConfig: {
+							sidebar: [
+								{ text: 'Getting Started', items: [{ text: 'Test', link: '/test' }] },
+								{ text: 'API Reference', items: [{ text: 'Guide', link: '/guide/' }] },
+							],
+						},
+					},
+				},
+			})
+			await Promise.all([
+				// @ts-ignore
+				plugin[0].transform(fakeMarkdownDocument, 'docs/test.md'),
+				// @ts-ignore
+				plugin[0].transform(fakeMarkdownDocument, 'docs/guide/index.md'),
+			])
+			// @ts-ignore
+			await plugin[1].generateBundle()
+
+			const writtenFiles = new Map(
+				writeFile.mock.calls.map((call) => [path.relative(mockConfig.vitepress.outDir, call[0]), call[1]]),
+			)
+
+			expect(Array.from(writtenFiles.keys()).sort()).toEqual([
+				'llms-full-api-reference.txt',
+				'llms-full-getting-started.txt',
+				'llms-full.txt',
+				'llms.txt',
+			])
+			expect(writtenFiles.get('llms-full-getting-started.txt')).toContain('url: /test.html')
+			expect(writtenFiles.get('llms-full-getting-started.txt')).not.toContain('url: /guide.html')
+			expect(writtenFiles.get('llms-full-api-reference.txt')).toContain('url: /guide.html')
+			expect(writtenFiles.get('llms.txt')).toContain(
+				'## Full Documentation by Section\n\n- [Getting Started](/llms-full-getting-started.txt)\n- [API Reference](/llms-full-api-reference.txt)\n',
+			)
+		})
+
+		it('generates `llms.txt` and `llms-full.txt` for each locale', async () => {
+			plugin = llmstxt({ generateLLMFriendlyDocsForEachPage: false })
+			// @ts-ignore
+			plugin[1].configResolved({
+				...mockConfig,
+				vitepress: {
+					...mockConfig.vitepress,
+					userConfig: {
+						title: 'Awesome tool',
+						locales: {
+							root: { label: 'English' },
+							fr: { label: 'Français', title: 'Outil génial', description: 'Un outil génial' },
+						},
+					},
+				},
+			})
+			await Promise.all([
+				// @ts-ignore
+				plugin[0].transform(fakeMarkdownDocument, 'docs/test.md'),
+				// @ts-ignore
+				plugin[0].transform(fakeMarkdownDocument, 'docs/fr/test.md'),
+				// @ts-ignore
+				plugin[0].transform(fakeMarkdownDocument, 'docs/fr/index.md'),
+			])
+			// @ts-ignore
+			await plugin[1].generateBundle()
+
+			const writtenFiles = new Map(
+				writeFile.mock.calls.map((call) => [path.relative(mockConfig.vitepress.outDir, call[0]), call[1]]),
+			)
+
+			expect(Array.from(writtenFiles.keys()).sort()).toEqual([
+				path.join('fr', 'llms-full.txt'),
+				path.join('fr', 'llms.txt'),
+				'llms-full.txt',
+				'llms.txt',
+			])
+
+			const rootLlmsTxt = writtenFiles.get('llms.txt')
+			expect(rootLlmsTxt).toStartWith('# Awesome tool')
+			expect(rootLlmsTxt).toContain('- [Some cool stuff](/test.md)')
+			expect(rootLlmsTxt).not.toContain('/fr/test.md')
+			expect(rootLlmsTxt).not.toContain('(/fr.md)')
+			expect(rootLlmsTxt).toContain('## Languages\n\n- [Français](/fr/llms.txt)\n')
+
+			const frLlmsTxt = writtenFiles.get(path.join('fr', 'llms.txt'))
+			expect(frLlmsTxt).toStartWith('# Outil génial\n\n> Un outil génial')
+			expect(frLlmsTxt).toContain('- [Some cool stuff](/fr/test.md)')
+			expect(frLlmsTxt).toContain('- [Some cool stuff](/fr.md)')
+			expect(frLlmsTxt).not.toContain('## Languages')
+
+			expect(writtenFiles.get('llms-full.txt')).not.toContain('/fr/test.html')
+			expect(writtenFiles.get('llms-full.txt')).not.toContain('url: /fr.html')
+			expect(writtenFiles.get(path.join('fr', 'llms-full.txt'))).toContain('url: /fr.html')
+			expect(writtenFiles.get(path.join('fr', 'llms-full.txt'))).toContain('url: /fr/test.html')
+			expect(writtenFiles.get(path.join('fr', 'llms-full.txt'))).not.toContain('url: /test.html')
+		})
+
 		it('should respect vitepress base option when generating output paths', async () => {
 			const configWithBase = {
 				...mockConfig,
@@ -459,12 +800,12 @@ This is a test page.`
 			expect(writeFile).nthCalledWith(
 				1,
 				path.resolve(configWithBase.vitepress.outDir, 'test.md'),
-				'---\nurl: /awesomeproject/test.md\n---\n# Some cool stuff\n',
+				'---\ntitle: Some cool stuff\nurl: /awesomeproject/test.md\ntokens: 4\n---\n# Some cool stuff\n',
 			)
 			expect(writeFile).nthCalledWith(
 				2,
 				path.resolve(configWithBase.vitepress.outDir, 'guide.md'),
-				'---\nurl: /awesomeproject/guide.md\n---\n# Some cool stuff\n',
+				'---\ntitle: Some cool stuff\nurl: /awesomeproject/guide.md\ntokens: 4\n---\n# Some cool stuff\n',
 			)
 		})
 
@@ -501,12 +842,12 @@ This is a test page.`
 				expect(writeFile).nthCalledWith(
 					1,
 					path.resolve(mockConfig.vitepress.outDir, 'guide.md'),
-					'---\nurl: /guide.md\n---\n# Some cool stuff\n',
+					'---\ntitle: Some cool stuff\nurl: /guide.md\ntokens: 4\n---\n# Some cool stuff\n',
 				)
 				expect(writeFile).nthCalledWith(
 					2,
 					path.resolve(mockConfig.vitepress.outDir, 'api.md'),
-					'---\nurl: /api.md\n---\n# Some cool stuff\n',
+					'---\ntitle: Some cool stuff\nurl: /api.md\ntokens: 4\n---\n# Some cool stuff\n',
 				)
 			})
 
@@ -532,7 +873,7 @@ This is a test page.`
 
 				expect(writeFile).toHaveBeenCalledWith(
 					path.resolve(mockConfig.vitepress.outDir, 'guide', 'installation.md'),
-					'---\nurl: /guide/installation.md\n---\n# Some cool stuff\n',
+					'---\ntitle: Some cool stuff\nurl: /guide/installation.md\ntokens: 4\n---\n# Some cool stuff\n',
 				)
 			})
 
@@ -561,7 +902,7 @@ This is a test page.`
 				expect(writeFile).nthCalledWith(
 					1,
 					path.resolve(mockConfig.vitepress.outDir, 'other', 'page.md'),
-					'---\nurl: /other/page.md\n---\n# Some cool stuff\n',
+					'---\ntitle: Some cool stuff\nurl: /other/page.md\ntokens: 4\n---\n# Some cool stuff\n',
 				)
 			})
 
@@ -0,0 +1,82 @@
+// spell-checker:words Français génial outil Québécois
+
+import { describe, expect, it } from 'bun:test'
+import path from 'node:path'
+import type { ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+// @ts-ignore
+import { findLocale, resolveLocales } from '@/plugin/locales'
+
+const srcDir = path.resolve('docs')
+const settings = { workDir: srcDir } as ResolvedLlmstxtSettings
+
+/** Creates a VitePress config with the given `locales`. */
+const configWithLocales = (locales: object) =>
+	({
+		vitepress: {
+			srcDir,
+			userConfig: {
+				title: 'Awesome tool',
+				themeConfig: { sidebar: [{ text: 'Guide', link: '/guide' }], nav: [] },
+				locales,
+			},
+		},
+	}) as unknown as VitePressConfig
+
+describe('resolveLocales', () => {
+	it('resolves the locales with their own options', () => {
+		const frSidebar = [{ text: 'Guide', link: '/fr/guide' }]
+		const [root, fr] = resolveLocales(
+			settings,
+			configWithLocales({
+				root: { label: 'English' },
+				fr: { label: 'Français', title: 'Outil génial', themeConfig: { sidebar: frSidebar } },
+			}),
+		)
+
+		expect(root?.dir).toBe('.')
+		expect(root?.userConfig.title).toBe('Awesome tool')
+		expect(fr?.dir).toBe('fr')
+		expect(fr?.label).toBe('Français')
+		expect(fr?.sidebar).toBe(frSidebar)
+		expect(fr?.userConfig.title).toBe('Outil génial')
+		expect(fr?.userConfig.themeConfig).toEqual({ sidebar: frSidebar, nav: [] })
+	})
+
+	it('adds the root locale if it is not configured', () => {
+		const locales = resolveLocales(settings, configWithLocales({ fr: { label: 'Français' } }))
+
+		expect(locales.map((locale) => locale.dir)).toEqual(['.', 'fr'])
+	})
+
+	it('ignores the locales of single-language sites', () => {
+		expect(resolveLocales(settings, configWithLocales({ root: { label: 'English' } }))).toEqual([])
+	})
+
+	it('ignores the locales if `workDir` points to a locale directory', () => {
+		const config = configWithLocales({ root: { label: 'English' }, fr: { label: 'Français' } })
+
+		expect(resolveLocales({ ...settings, workDir: path.join(srcDir, 'fr') }, config)).toEqual([])
+		expect(resolveLocales({ ...settings, locales: false }, config)).toEqual([])
+	})
+})
+
+describe('findLocale', () => {
+	const locales = resolveLocales(
+		settings,
+		configWithLocales({
+			root: { label: 'English' },
+			fr: { label: 'Français' },
+			'fr/ca': { label: 'Québécois' },
+		}),
+	)
+
+	it('finds the locale with the longest matching directory', () => {
+		expect(findLocale('guide.md', locales)?.key).toBe('root')
+		expect(findLocale('fr', locales)?.key).toBe('fr')
+		expect(findLocale('fr/guide.md', locales)?.key).toBe('fr')
+		expect(findLocale('fr.md', locales)?.key).toBe('fr')
+		expect(findLocale('fr/ca.md', locales)?.key).toBe('fr/ca')
+		expect(findLocale('fr/ca/guide.md', locales)?.key).toBe('fr/ca')
+		expect(findLocale('french.md', locales)?.key).toBe('root')
+	})
+})
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test'
+import path from 'node:path'
+import matter from 'gray-matter'
+import type { PreparedFile, ResolvedLlmstxtSettings, VitePressConfig } from '@/internal-types'
+import mockedLogger from '../mocks/utils/logger'
+
+mock.module('@/utils/logger', () => mockedLogger)
+
+// @ts-ignore
+import { reportValidationIssues, validateLLMDocs } from '@/plugin/validation'
+
+const srcDir = path.resolve('docs')
+const settings = { workDir: srcDir } as ResolvedLlmstxtSettings
+
+/** Creates a prepared file with the given path and title. */
+const preparedFile = (filePath: string, title: string, unresolvedIncludes: string[] = []): PreparedFile => ({
+	path: filePath,
+	title,
+	file: matter(''),
+	unresolvedIncludes,
+})
+
+/** Creates a VitePress config with the given pages and sidebar. */
+const createConfig = (pages: string[], sidebar?: object) =>
+	({
+		vitepress: { srcDir, pages, userConfig: { themeConfig: { sidebar } } },
+	}) as unknown as VitePressConfig
+
+describe('validateLLMDocs', () => {
+	it('finds sidebar links without a page', async () => {
+		const issues = await validateLLMDocs(
+			[preparedFile('index.md', 'Home'), preparedFile('guide/index.md', 'Guide')],
+			new Map(),
+			settings,
+			createConfig(['index.md', 'guide/index.md', 'drafts/ignored.md']),
+			[
+				{ text: 'Home', link: '/' },
+				{
+					text: 'Guide',
+					base: '/guide/',
+					items: [
+						{ text: 'Introduction', link: 'index#intro' },
+						{ text: 'Missing', link: 'missing' },
+					],
+				},
+				{ text: 'Ignored', link: '/drafts/ignored.html' },
+				{ text: 'GitHub', link: 'https://github.com' },
+			],
+		)
+
+		expect(issues).toEqual([
+			{ type: 'unmatched-sidebar-link', source: '/guide/missing', details: 'No page found for the link' },
+		])
+	})
+
+	it('finds untitled pages and unresolved includes', async () => {
+		const issues = await validateLLMDocs(
+			[preparedFile('guide.md', 'Untitled', ['./parts/missing.md'])],
+			new Map(),
+			settings,
+			createConfig(['guide.md']),
+			undefined,
+		)
+
+		expect(issues.map(({ type, source, details }) => [type, source, details])).toEqual([
+			['untitled-page', 'guide.md', 'No title in the frontmatter and no heading'],
+			['unresolved-include', 'guide.md', './parts/missing.md'],
+		])
+	})
+
+	it('finds pages with the same output path', async () => {
+		const issues = await validateLLMDocs(
+			[],
+			new Map([
+				[path.join(srcDir, 'guide.md'), 'guide.md'],
+				[path.join(srcDir, 'guide/index.md'), 'guide.md'],
+				[path.join(srcDir, 'api.md'), 'api.md'],
+			]),
+			settings,
+			createConfig([]),
+			undefined,
+		)
+
+		expect(issues).toEqual([
+			{
+				type: 'duplicate-output-path',
+				source: 'guide.md',
+				details: `Generated from guide.md, ${path.join('guide', 'index.md')}`,
+			},
+		])
+	})
+})
+
+describe('reportValidationIssues', () => {
+	const { info, warn } = mockedLogger.default
+
+	beforeEach(() => {
+		info.mockClear()
+		warn.mockClear()
+	})
+
+	it('prints the issues as a table', () => {
+		reportValidationIssues([{ type: 'untitled-page', source: 'guide.md', details: 'No title' }])
+
+		expect(warn).toHaveBeenCalled()
+		expect(info.mock.calls.map(([line]) => line)).toEqual([
+			expect.stringContaining('Problem'),
+			expect.stringContaining('guide.md'),
+		])
+	})
+
+	it('prints nothing without issues', () => {
+		reportValidationIssues([])
+
+		expect(warn).not.toHaveBeenCalled()
+		expect(info).not.toHaveBeenCalled()
+	})
+})
@@ -2,7 +2,7 @@
 
 import { describe, expect, it } from 'bun:test'
 import path from 'node:path'
-import { getDirectoriesAtDepths } from '@/utils/file-utils'
+import { getDirectoriesAtDepths, getGitTimestamp } from '@/utils/file-utils'
 import { generateLink } from '@/utils/template-utils'
 // @ts-ignore
 import { cleanUrl } from '@/vitepress-components/utils'
@@ -215,3 +215,27 @@ describe('getDirectoriesAtDepths', () => {
 		])
 	})
 })
+
+describe('getGitTimestamp', () => {
+	it('returns the timestamp of the last commit of a file', async () => {
+		const timestamp = await getGitTimestamp(path.resolve('package.json'))
+
+		expect(timestamp).toBeNumber()
+		expect(timestamp).toBeLessThanOrEqual(Date.now())
+	})
+
+	it('returns undefined for files that are not committed', async () => {
+		expect(await getGitTimestamp(path.resolve('not-committed.md'))).toBeUndefined()
+	})
+
+	it('resolves all the calls when more files are requested than git processes are run at once', async () => {
+		const timestamps = await Promise.all(
+			Array.from({ length: 20 }, (_, index) =>
+				getGitTimestamp(path.resolve(index % 2 ? 'package.json' : 'not-committed.md')),
+			),
+		)
+
+		expect(timestamps.filter((timestamp) => timestamp === undefined)).toHaveLength(10)
+		expect(new Set(timestamps.filter(Boolean)).size).toBe(1)
+	})
+})
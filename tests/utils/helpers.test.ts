@@ -0,0 +1,16 @@
+// spell-checker:words Начало работы
+
+import { describe, expect, it } from 'bun:test'
+import { slugify } from '@/utils/helpers'
+
+describe('slugify', () => {
+	it('converts a string into a slug', () => {
+		expect(slugify('Getting Started!')).toBe('getting-started')
+		expect(slugify('  API / Reference (v2)  ')).toBe('api-reference-v2')
+	})
+
+	it('removes diacritics and keeps non-latin letters', () => {
+		expect(slugify('Café Déjà vu')).toBe('cafe-deja-vu')
+		expect(slugify('Начало работы')).toBe('начало-работы')
+	})
+})
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'bun:test'
 import matter from 'gray-matter'
-import { extractTitle } from '@/utils/markdown'
+import { extractDescription, extractTitle, getLLMsPageOptions, isExcludedFromLLMs } from '@/utils/markdown'
 
 const fakeIndexMd = matter(`\
 ---
@@ -40,3 +40,29 @@ describe('extractTitle', () => {
 		expect(extractTitle(markdown)).toBeUndefined()
 	})
 })
+
+describe('llms frontmatter', () => {
+	it('prefers the title and the description for LLMs', () => {
+		const file = matter(
+			'---\ntitle: Title\ndescription: Description\nllms:\n  title: LLM title\n  description: LLM description\n---\n',
+		)
+
+		expect(extractTitle(file)).toBe('LLM title')
+		expect(extractDescription(file)).toBe('LLM description')
+	})
+
+	it('falls back to the regular description', () => {
+		expect(extractDescription(fakeIndexMdWithoutTitle)).toBe('Some description')
+	})
+
+	it('reads the page options', () => {
+		expect(getLLMsPageOptions(matter('---\nllms:\n  fullTxt: false\n---\n'))).toEqual({ fullTxt: false })
+		expect(getLLMsPageOptions(matter('---\nllms: false\n---\n'))).toEqual({})
+		expect(getLLMsPageOptions(fakeIndexMd)).toEqual({})
+	})
+
+	it('detects excluded pages', () => {
+		expect(isExcludedFromLLMs(matter('---\nllms: false\n---\n'))).toBe(true)
+		expect(isExcludedFromLLMs(matter('---\nllms:\n  page: false\n---\n'))).toBe(false)
+	})
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test'
+import { formatProvenanceMarker, generateProvenanceMap, parseProvenanceMarker } from '@/utils/provenance'
+
+describe('formatProvenanceMarker', () => {
+	it('formats the markers as comments or lines', () => {
+		const marker = { end: false, source: 'parts/intro.md', lines: [3, 12] as [number, number] }
+
+		expect(formatProvenanceMarker(marker, 'comment')).toBe('<!-- source: parts/intro.md#L3-L12 -->')
+		expect(formatProvenanceMarker(marker, 'line')).toBe('source: parts/intro.md#L3-L12')
+		expect(formatProvenanceMarker({ end: true, source: 'parts/intro.md' }, 'comment')).toBe(
+			'<!-- end source: parts/intro.md -->',
+		)
+	})
+})
+
+describe('parseProvenanceMarker', () => {
+	it('parses the markers of both formats', () => {
+		expect(parseProvenanceMarker('<!-- source: parts/intro.md#L3-L12 -->')).toEqual({
+			end: false,
+			source: 'parts/intro.md',
+			lines: [3, 12],
+		})
+		expect(parseProvenanceMarker('end source: parts/intro.md')).toEqual({
+			end: true,
+			source: 'parts/intro.md',
+			lines: undefined,
+		})
+		expect(parseProvenanceMarker('<!-- a comment -->')).toBeUndefined()
+	})
+})
+
+describe('generateProvenanceMap', () => {
+	it('maps the lines of the outputs to the included files', () => {
+		const outputs = new Map([
+			[
+				'llms-full.txt',
+				[
+					'# Guide',
+					'',
+					'<!-- source: parts/intro.md#L3-L8 -->',
+					'',
+					'Intro',
+					'',
+					'source: snippets/config.ts#L1-L3',
+					'',
+					'```ts',
+					'export default {}',
+					'```',
+					'',
+					'end source: snippets/config.ts',
+					'',
+					'<!-- end source: parts/intro.md -->',
+				].join('\n'),
+			],
+			['llms.txt', '# Guide'],
+		])
+
+		expect(generateProvenanceMap(outputs)).toEqual({
+			'llms-full.txt': [
+				{ lines: [5, 13], source: 'parts/intro.md', sourceLines: [3, 8] },
+				{ lines: [9, 11], source: 'snippets/config.ts', sourceLines: [1, 3] },
+			],
+		})
+	})
+})
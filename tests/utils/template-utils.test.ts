@@ -99,4 +99,36 @@ describe('generateMetadata', () => {
 		expect(result.url).toBe(`${sampleDomain}/docs/guide.md`)
 		expect(result.description).toBeUndefined()
 	})
+
+	it('should include the title and the token count', () => {
+		const result = generateMetadata(matter('# Guide\n\nSome text'), {
+			filePath: 'docs/guide',
+			title: 'Guide',
+		})
+
+		expect(result).toEqual({ title: 'Guide', url: '/docs/guide.md', tokens: 4 })
+	})
+
+	it('should include the last updated date', () => {
+		const result = generateMetadata(sampleMatter, {
+			filePath: 'docs/guide',
+			lastUpdated: Date.UTC(2024, 0, 2),
+		})
+
+		expect(result.lastUpdated).toBe('2024-01-02T00:00:00.000Z')
+	})
+
+	it('should prefer the last updated date from frontmatter', () => {
+		const withDate = generateMetadata(matter('---\nlastUpdated: 2023-05-06\n---\n'), {
+			filePath: 'docs/guide',
+			lastUpdated: Date.UTC(2024, 0, 2),
+		})
+		const disabled = generateMetadata(matter('---\nlastUpdated: false\n---\n'), {
+			filePath: 'docs/guide',
+			lastUpdated: Date.UTC(2024, 0, 2),
+		})
+
+		expect(withDate.lastUpdated).toBe('2023-05-06T00:00:00.000Z')
+		expect(disabled.lastUpdated).toBeUndefined()
+	})
 })